@@ -4,11 +4,34 @@ import { Reflector } from "three/examples/jsm/objects/Reflector.js";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 import Stats from "three/examples/jsm/libs/stats.module";
 import { XrInput } from "./utils/xrInput";
+import { XrInputRecorder } from "./utils/xrInputRecorder";
+import { InputRecording } from "./utils/xrInputRecording";
+import { createRecordingControls } from "./helpers/recordingControls";
+import { createDesktopControls } from "./helpers/desktopControls";
+import { createAudioControls } from "./helpers/audioControls";
 import { Object3D, Object3DEventMap } from "three";
 import { GripSystem } from "./mechanics/GripSystem";
 import { BarspinMechanic } from "./mechanics/BarspinMechanic";
-
-export class Context {
+import { TailwhipMechanic } from "./mechanics/TailwhipMechanic";
+import { TrickRegistry } from "./mechanics/TrickRegistry";
+import { FrameClock, ManualScheduler, MechanicsContext, MechanicsEnvironment } from "./mechanics/MechanicsContext";
+import { ScoreContext, ScoreSystem } from "./mechanics/ScoreSystem";
+import { ScoreHUD } from "./ui/ScoreHUD";
+import { HapticFeedback } from "./feedback/HapticFeedback";
+import { AudioFeedback } from "./feedback/AudioFeedback";
+import { CatchIndicator } from "./feedback/CatchIndicator";
+import { BindingsPanel } from "./ui/BindingsPanel";
+import { VRUIInteraction } from "./ui/VRUIInteraction";
+import { TutorialSystem } from "./ui/TutorialSystem";
+import { PracticeMode } from "./ui/PracticeMode";
+import { DifficultySetting } from "./ui/DifficultySetting";
+import { Difficulty } from "./mechanics/DifficultyPresets";
+import { TuningPanel } from "./ui/TuningPanel";
+import { Tuning } from "./utils/tuning";
+import { createTuningControls } from "./helpers/tuningControls";
+import { InputAction } from "./utils/inputBindings";
+
+export class Context implements MechanicsContext, ScoreContext {
   frame: number = 0;
   cube?: THREE.Mesh;
   scene: THREE.Scene;
@@ -17,8 +40,26 @@ export class Context {
   renderer: THREE.WebGLRenderer;
   stats: Stats;
   xrInput: XrInput;
+  xrInputRecorder: XrInputRecorder;
+  mechanicsClock: FrameClock;
+  mechanicsScheduler: ManualScheduler;
+  environment: MechanicsEnvironment;
+  haptics: HapticFeedback;
+  audioFeedback: AudioFeedback;
+  catchIndicator: CatchIndicator;
   gripSystem: GripSystem;
+  trickRegistry: TrickRegistry;
   barspinMechanic: BarspinMechanic;
+  tailwhipMechanic: TailwhipMechanic;
+  scoreSystem: ScoreSystem;
+  scoreHUD: ScoreHUD;
+  uiInteraction: VRUIInteraction;
+  tutorialSystem: TutorialSystem;
+  practiceMode: PracticeMode;
+  difficulty: DifficultySetting;
+  bindingsPanel: BindingsPanel;
+  tuning: Tuning;
+  tuningPanel: TuningPanel;
   elapsedTime: number;
   deltaTime: number;
   clock: THREE.Clock;
@@ -26,6 +67,8 @@ export class Context {
   handlebars?: Object3D<Object3DEventMap>;
   leftGripMarker?: THREE.Mesh;
   rightGripMarker?: THREE.Mesh;
+  bikeFrame?: THREE.Group;
+  seatMarker?: THREE.Mesh;
   isInVR: boolean = false;
 
   // Handlebar rotation control
@@ -33,6 +76,12 @@ export class Context {
   currentHandlebarRotation: number = 0;
   handlebarRotationSmoothing: number = 0.15; // Lerp factor for smooth rotation
   maxHandlebarRotation: number = Math.PI / 2; // ±90 degrees constraint
+  handlebarOffset: THREE.Vector3 = new THREE.Vector3(0, -0.3, -0.45); // Handlebar position from the camera rig (m)
+  handlebarTilt: number = Math.PI * 0.05; // Forward tilt for a natural riding angle (~9 degrees)
+
+  // Frame rotation around the head tube (tailwhips)
+  currentFrameRotation: number = 0;
+  frameRotationSmoothing: number = 0.15; // Lerp factor for the frame settling back straight
 
   // BMX rider configuration
   static readonly RIDER_HEAD_HEIGHT = 1.3; // Height when seated on BMX (meters)
@@ -81,15 +130,66 @@ export class Context {
     document.body.appendChild(this.stats.dom);
 
     // VR
-    document.body.appendChild(VRButton.createButton(this.renderer));
+    document.body.appendChild(VRButton.createButton(this.renderer, { optionalFeatures: ["hand-tracking"] }));
     this.renderer.xr.enabled = true;
     this.xrInput = new XrInput(this);
+    this.xrInputRecorder = new XrInputRecorder(this);
+    createRecordingControls(this);
+    createDesktopControls(this);
+
+    // Mechanics run on frame time, so replays see exactly the times the recording did
+    // (slowed in practice mode), and their delayed work runs on the same clock
+    this.mechanicsClock = new FrameClock();
+    this.mechanicsScheduler = new ManualScheduler(this.mechanicsClock);
+    this.environment = {
+      clock: this.mechanicsClock,
+      scheduler: this.mechanicsScheduler,
+      input: this.xrInput,
+    };
+    this.haptics = new HapticFeedback(this.environment);
 
     // Initialize grip system
     this.gripSystem = new GripSystem(this);
 
-    // Initialize barspin mechanic (must be after gripSystem)
-    this.barspinMechanic = new BarspinMechanic(this);
+    // Initialize trick registry and tricks (must be after gripSystem)
+    this.trickRegistry = new TrickRegistry(this);
+    this.barspinMechanic = this.trickRegistry.register(new BarspinMechanic(this));
+    this.tailwhipMechanic = this.trickRegistry.register(new TailwhipMechanic(this));
+
+    // Difficulty preset from the URL or the menu (must be after the tricks are registered)
+    this.difficulty = new DifficultySetting(this);
+
+    // Catch timing cues on the handlebars
+    this.catchIndicator = new CatchIndicator(this);
+
+    // Slow motion, with the catch indicator's ghost bars (must be after the catch indicator)
+    this.practiceMode = new PracticeMode(this);
+
+    // Score landed tricks (must be after the tricks are registered)
+    this.scoreSystem = new ScoreSystem(this);
+    this.scoreHUD = new ScoreHUD(this, this.scoreSystem);
+
+    // Sounds for grips and tricks (must be after the tricks are registered)
+    this.audioFeedback = new AudioFeedback(this);
+    createAudioControls(this);
+
+    // Pointer rays on the VR UI panels (panels register themselves)
+    this.uiInteraction = new VRUIInteraction(this);
+
+    // Barspin tutorial for new riders (must be after the tricks and the UI interaction)
+    this.tutorialSystem = new TutorialSystem(this);
+
+    // Live tuning of the mechanics, on desktop and in VR (must be after the tricks and the UI interaction)
+    this.tuning = new Tuning(this);
+    createTuningControls(this);
+    this.tuningPanel = new TuningPanel(this);
+
+    // Bound actions (the menu action opens the bindings panel)
+    this.bindingsPanel = new BindingsPanel(this, this.xrInput.bindings);
+    this.xrInput.onAction((action) => this.onInputAction(action));
+
+    // Bike frame needs the grip system for its seat zone
+    this.createBikeFrame();
 
     // Setup VR session listeners for camera adjustment
     this.setupVRSessionListeners();
@@ -168,6 +268,119 @@ export class Context {
     this.gripSystem.initializeGripZones();
   }
 
+  createBikeFrame() {
+    // Frame pivots around the head tube, which sits under the handlebar stem (kept there in onAnimate)
+    this.bikeFrame = new THREE.Group();
+    this.bikeFrame.position.copy(this.handlebarOffset);
+    this.cameraRig.add(this.bikeFrame);
+
+    const frameMaterial = new THREE.MeshStandardMaterial({ color: 0x3355ff, metalness: 0.6, roughness: 0.4 });
+
+    // Tubes run back from the head tube towards the rider (+Z)
+    const headTubeTop = new THREE.Vector3(0, -0.05, 0);
+    const headTubeBottom = new THREE.Vector3(0, -0.2, 0);
+    const bottomBracket = new THREE.Vector3(0, -0.55, 0.4);
+    const seatClamp = new THREE.Vector3(0, -0.2, 0.5);
+    this.addFrameTube(headTubeTop, headTubeBottom, 0.02, frameMaterial);
+    this.addFrameTube(headTubeTop, seatClamp, 0.015, frameMaterial);
+    this.addFrameTube(headTubeBottom, bottomBracket, 0.018, frameMaterial);
+    this.addFrameTube(bottomBracket, seatClamp, 0.016, frameMaterial);
+
+    // Seat
+    const seat = new THREE.Mesh(
+      new THREE.BoxGeometry(0.12, 0.04, 0.22),
+      new THREE.MeshStandardMaterial({ color: 0x222222 })
+    );
+    seat.position.set(0, -0.16, 0.52);
+    this.bikeFrame.add(seat);
+
+    // Seat marker shows where the feet catch the frame (GripSystem colors it)
+    this.seatMarker = new THREE.Mesh(new THREE.SphereGeometry(0.04, 16, 16), frameMaterial);
+    this.seatMarker.position.set(0, -0.12, 0.52);
+    this.bikeFrame.add(this.seatMarker);
+
+    console.log('Bike frame created under handlebars');
+
+    // Initialize the frame/seat grip zone now that the seat marker is ready
+    this.gripSystem.initializeFrameZone();
+  }
+
+  /**
+   * Add a cylinder between two points on the bike frame
+   */
+  addFrameTube(from: THREE.Vector3, to: THREE.Vector3, radius: number, material: THREE.Material) {
+    if (!this.bikeFrame) return;
+
+    const length = from.distanceTo(to);
+    const tube = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, length, 8), material);
+    tube.position.copy(from).add(to).multiplyScalar(0.5);
+    // Cylinders are built along +Y
+    tube.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), to.clone().sub(from).normalize());
+    this.bikeFrame.add(tube);
+  }
+
+  /**
+   * Difficulty preset the mechanics are running at (recorded with each scored trick)
+   */
+  getDifficulty(): Difficulty {
+    return this.difficulty.current;
+  }
+
+  /**
+   * Replay a recorded input session from a clean start
+   */
+  startReplay(recording: InputRecording) {
+    this.gripSystem.resetGrips();
+    for (const trick of this.trickRegistry.tricks) {
+      trick.reset();
+    }
+    this.scoreSystem.resetSession();
+    this.scoreHUD.showLiveScore();
+    this.xrInput.startReplay(recording);
+    // Judge the input at the difficulty it was recorded at (the rider's comes back when the replay ends)
+    if (this.xrInput.isReplaying()) {
+      this.difficulty.useRecorded(recording.difficulty);
+    }
+  }
+
+  /**
+   * Respond to a bound action button
+   */
+  onInputAction(action: InputAction) {
+    switch (action) {
+      case "resetTrick":
+        for (const trick of this.trickRegistry.tricks) {
+          trick.reset();
+        }
+        this.gripSystem.resetFrameContact();
+        break;
+      case "recenter":
+        this.recenter();
+        break;
+    }
+  }
+
+  /**
+   * Make where the rider is standing and facing the riding position
+   */
+  recenter() {
+    const referenceSpace = this.renderer.xr.getReferenceSpace();
+    if (!this.isInVR || !referenceSpace) {
+      return;
+    }
+
+    // Offset by the head's floor position and heading, so the head ends up over the origin facing -Z
+    const head = this.xrInput._head;
+    const yaw = Math.atan2(-head.forward.x, -head.forward.z);
+    const orientation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
+    const offset = new XRRigidTransform(
+      { x: head.position.x, y: 0, z: head.position.z },
+      { x: orientation.x, y: orientation.y, z: orientation.z, w: orientation.w }
+    );
+    this.renderer.xr.setReferenceSpace(referenceSpace.getOffsetReferenceSpace(offset));
+    console.log("Recentered the rider");
+  }
+
   setupVRSessionListeners() {
     // Listen for VR session start
     this.renderer.xr.addEventListener('sessionstart', () => {
@@ -177,6 +390,13 @@ export class Context {
       this.camera.position.set(0, 0, 0);
       // Disable orbit controls in VR
       this.controls.enabled = false;
+      // Every VR session is scored from zero
+      this.scoreSystem.resetSession();
+      this.scoreHUD.showLiveScore();
+      // Real controllers take over from any replayed or emulated input
+      this.xrInput.clearSource();
+      // Record every VR session so bad attempts can be replayed on desktop
+      this.xrInputRecorder.start();
       console.log('Entered VR mode - Camera positioned at BMX rider perspective');
     });
 
@@ -187,6 +407,11 @@ export class Context {
       this.camera.position.set(0, 1.3, 2);
       // Re-enable orbit controls
       this.controls.enabled = true;
+      this.xrInputRecorder.stop();
+      // Show how the session went
+      const summary = this.scoreSystem.getSessionSummary();
+      console.log('Session summary', summary);
+      this.scoreHUD.showSessionSummary(summary);
       console.log('Exited VR mode - Camera restored to desktop view');
     });
   }
@@ -197,11 +422,33 @@ export class Context {
     this.deltaTime = this.clock.getDelta();
     this.xrInput.onAnimate();
 
+    // Replays run on the recorded frame times and speed
+    if (this.xrInput.sourceFrame?.deltaTime !== undefined) {
+      this.deltaTime = this.xrInput.sourceFrame.deltaTime;
+    }
+    this.mechanicsClock.setTimeScale(this.xrInput.sourceFrame?.timeScale ?? this.practiceMode.activeTimeScale);
+    this.xrInputRecorder.captureFrame();
+    const simulationDeltaTime = this.mechanicsClock.advance(this.deltaTime);
+
     // Update grip system
     this.gripSystem.update();
 
-    // Update barspin mechanic
-    this.barspinMechanic.update(this.deltaTime);
+    // Update all registered tricks
+    this.trickRegistry.update(simulationDeltaTime);
+
+    // Play due haptic pulses (after the mechanics have started this frame's patterns)
+    this.haptics.update();
+    this.mechanicsScheduler.run();
+    this.audioFeedback.update();
+    this.catchIndicator.update();
+
+    // Update combo timer and score display
+    this.scoreSystem.update();
+    this.scoreHUD.update();
+    this.uiInteraction.update(this.deltaTime);
+    this.tutorialSystem.update();
+    this.bindingsPanel.update();
+    this.tuningPanel.update();
 
     // Only update controls when not in VR
     if (!this.isInVR) {
@@ -218,7 +465,7 @@ export class Context {
       // - In front of rider: ~0.45m forward (z-axis)
       // - Below chest level: ~-0.3m down from camera (y-axis)
       // - Centered: 0 on x-axis
-      this.handlebars.position.set(0, -0.3, -0.45);
+      this.handlebars.position.copy(this.handlebarOffset);
 
       // Scale handlebars to realistic BMX size
       // Real BMX handlebars are typically 60-70cm wide
@@ -226,34 +473,55 @@ export class Context {
       // We need to check the actual model size, but starting with scale that gives ~65cm width
       this.handlebars.scale.set(1.0, 1.0, 1.0);
 
-      // Calculate handlebar rotation when both hands are gripping
-      if (this.gripSystem.areBothHandsAttached()) {
-        // Get target rotation from grip system
-        this.targetHandlebarRotation = this.gripSystem.calculateHandlebarRotation();
+      // Neutral is wherever the bars last came to rest (rotated 180 after a swapped barspin)
+      const neutralRotation = this.barspinMechanic.barOrientation;
 
-        // Apply rotation constraints (±90 degrees)
-        this.targetHandlebarRotation = Math.max(
-          -this.maxHandlebarRotation,
-          Math.min(this.maxHandlebarRotation, this.targetHandlebarRotation)
-        );
+      if (this.barspinMechanic.isBarsFree()) {
+        // Bars are spinning (or winding down after a drop) - the barspin mechanic drives them
+        this.currentHandlebarRotation = this.barspinMechanic.getBarAngle();
+        this.targetHandlebarRotation = this.currentHandlebarRotation;
       } else {
-        // Return to neutral position when not gripping
-        this.targetHandlebarRotation = 0;
+        // Calculate handlebar rotation when both hands are gripping
+        if (this.gripSystem.areBothHandsAttached()) {
+          // Get target rotation from grip system
+          const steering = this.gripSystem.calculateHandlebarRotation();
+
+          // Apply rotation constraints (±90 degrees)
+          this.targetHandlebarRotation =
+            neutralRotation + Math.max(-this.maxHandlebarRotation, Math.min(this.maxHandlebarRotation, steering));
+        } else {
+          // Return to neutral position when not gripping
+          this.targetHandlebarRotation = neutralRotation;
+        }
+
+        // Smooth interpolation along the shortest arc, so caught multi-turn spins
+        // blend back under steering without unwinding
+        const delta = this.targetHandlebarRotation - this.currentHandlebarRotation;
+        this.currentHandlebarRotation += Math.atan2(Math.sin(delta), Math.cos(delta)) * this.handlebarRotationSmoothing;
       }
 
-      // Smooth interpolation between current and target rotation
-      this.currentHandlebarRotation = THREE.MathUtils.lerp(
-        this.currentHandlebarRotation,
-        this.targetHandlebarRotation,
-        this.handlebarRotationSmoothing
-      );
-
       // Apply rotation to handlebars
-      // X rotation: forward tilt for natural riding angle (~9 degrees)
-      // Y rotation: steering based on controller positions
-      this.handlebars.rotation.x = Math.PI * 0.05;
+      // X rotation: forward tilt for natural riding angle
+      // Y rotation: steering based on controller positions, or the barspin while spinning
+      // (grip markers are children of the handlebars, so they spin with them)
+      this.handlebars.rotation.x = this.handlebarTilt;
       this.handlebars.rotation.y = this.currentHandlebarRotation;
     }
+
+    // Update frame rotation around the head tube, keeping it under the handlebars as the offset is tuned
+    if (this.bikeFrame) {
+      this.bikeFrame.position.copy(this.handlebarOffset);
+      if (this.tailwhipMechanic.isFrameFree()) {
+        // Frame is whipping (or winding down after a miss) - the tailwhip mechanic drives it
+        this.currentFrameRotation = this.tailwhipMechanic.getFrameAngle();
+      } else {
+        // Settle back straight along the shortest arc
+        const delta = -this.currentFrameRotation;
+        this.currentFrameRotation += Math.atan2(Math.sin(delta), Math.cos(delta)) * this.frameRotationSmoothing;
+      }
+
+      this.bikeFrame.rotation.y = this.currentFrameRotation;
+    }
   }
 
   onResize() {
@@ -0,0 +1,297 @@
+import * as THREE from "three";
+import { Context } from "../context";
+
+const AUDIO_SETTINGS_STORAGE_KEY = "bmxr.audio";
+
+/**
+ * Saved volume and mute
+ */
+interface AudioSettings {
+  volume: number;
+  muted: boolean;
+}
+
+/**
+ * Sound that follows the spin while the bars are in the air
+ */
+interface Swoosh {
+  source: AudioBufferSourceNode;
+  filter: BiquadFilterNode;
+  gain: GainNode;
+}
+
+/**
+ * AudioFeedback makes the game's sounds with WebAudio, procedurally (no audio files):
+ * a swoosh following the barspin's spin speed, a metallic click on each catch, a clunk
+ * when a barspin fails and a small squeak when a hand grips the bars.
+ *
+ * Sounds come from an emitter at the handlebars (a THREE.PositionalAudio), heard through
+ * a listener on the camera. Browsers only start audio after a user gesture, so the audio
+ * context is resumed on the first click, key press or VR session.
+ */
+export class AudioFeedback {
+  context: Context;
+  listener: THREE.AudioListener;
+  emitter: THREE.PositionalAudio;
+  volume: number = 0.8; // Master volume (0-1)
+  muted: boolean = false;
+
+  // Configuration
+  swooshMinFrequency: number = 300; // Swoosh band centre with the bars barely turning (Hz)
+  swooshMaxFrequency: number = 2400; // Swoosh band centre at max spin speed (Hz)
+  swooshVolume: number = 0.5; // Swoosh gain at max spin speed
+  clickVolume: number = 0.6;
+  clunkVolume: number = 0.8;
+  squeakVolume: number = 0.12; // Subtle - it plays on every grip
+
+  private noiseBuffer: AudioBuffer;
+  private swoosh: Swoosh | null = null;
+
+  constructor(context: Context) {
+    this.context = context;
+
+    this.listener = new THREE.AudioListener();
+    this.context.camera.add(this.listener);
+
+    // Emitter sits at the handlebars (kept in place in update())
+    this.emitter = new THREE.PositionalAudio(this.listener);
+    this.emitter.setRefDistance(0.5);
+    this.context.cameraRig.add(this.emitter);
+
+    this.noiseBuffer = this.createNoiseBuffer(2);
+
+    const settings = this.loadSettings();
+    this.volume = settings.volume;
+    this.muted = settings.muted;
+    this.applyVolume();
+
+    this.listenForEvents();
+    this.resumeOnGesture();
+  }
+
+  get audioContext(): AudioContext {
+    return this.listener.context;
+  }
+
+  /**
+   * Set the master volume (0-1, and save it)
+   */
+  setVolume(volume: number): void {
+    this.volume = THREE.MathUtils.clamp(volume, 0, 1);
+    this.applyVolume();
+    this.saveSettings();
+  }
+
+  /**
+   * Mute or unmute everything (and save it)
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.applyVolume();
+    this.saveSettings();
+    console.log(`AudioFeedback: ${muted ? "Muted" : "Unmuted"}`);
+  }
+
+  /**
+   * Update method called each frame - keeps the emitter on the bars and the swoosh on the spin
+   */
+  update(): void {
+    if (this.context.handlebars) {
+      this.emitter.position.copy(this.context.handlebars.position);
+    }
+
+    const barspin = this.context.barspinMechanic;
+    if (barspin.isSpinning() && barspin.spinVelocity > 0) {
+      this.updateSwoosh(barspin.spinVelocity / barspin.config.maxSpinVelocity, barspin.currentRotation);
+    } else {
+      this.stopSwoosh();
+    }
+  }
+
+  private listenForEvents(): void {
+    this.context.gripSystem.addEventListener("gripStart", () => this.playSqueak());
+
+    const barspin = this.context.barspinMechanic;
+    barspin.addEventListener("firstCatch", () => this.playClick());
+    barspin.addEventListener("secondCatch", () => this.playClick());
+    barspin.addEventListener("failed", () => this.playClunk());
+  }
+
+  /**
+   * Browsers keep audio suspended until the user interacts with the page
+   */
+  private resumeOnGesture(): void {
+    const resume = () => {
+      if (this.audioContext.state === "suspended") {
+        this.audioContext.resume();
+      }
+    };
+    window.addEventListener("pointerdown", resume);
+    window.addEventListener("keydown", resume);
+    this.context.renderer.xr.addEventListener("sessionstart", resume);
+  }
+
+  private applyVolume(): void {
+    this.listener.setMasterVolume(this.muted ? 0 : this.volume);
+  }
+
+  /**
+   * Band-passed noise: the band rises with spin speed and swells as each grip passes
+   */
+  private updateSwoosh(speed: number, rotation: number): void {
+    const ctx = this.audioContext;
+    if (!this.swoosh) {
+      const source = ctx.createBufferSource();
+      source.buffer = this.noiseBuffer;
+      source.loop = true;
+      const filter = ctx.createBiquadFilter();
+      filter.type = "bandpass";
+      filter.Q.value = 1.5;
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      source.connect(filter).connect(gain).connect(this.emitter.getOutput());
+      source.start();
+      this.swoosh = { source, filter, gain };
+    }
+
+    const now = ctx.currentTime;
+    const frequency = this.swooshMinFrequency + (this.swooshMaxFrequency - this.swooshMinFrequency) * speed;
+    const pass = 0.6 + 0.4 * Math.abs(Math.cos(rotation)); // Loudest as the grips sweep past the rider
+    this.swoosh.filter.frequency.setTargetAtTime(frequency, now, 0.03);
+    this.swoosh.gain.gain.setTargetAtTime(this.swooshVolume * speed * pass, now, 0.03);
+  }
+
+  private stopSwoosh(): void {
+    if (!this.swoosh) {
+      return;
+    }
+    const now = this.audioContext.currentTime;
+    this.swoosh.gain.gain.setTargetAtTime(0, now, 0.05);
+    this.swoosh.source.stop(now + 0.3);
+    this.swoosh = null;
+  }
+
+  /**
+   * Metallic click: a few inharmonic partials ringing out fast, over a tick of noise
+   */
+  private playClick(): void {
+    const ctx = this.audioContext;
+    const now = ctx.currentTime;
+    for (const [frequency, level] of [
+      [2200, 1],
+      [3470, 0.6],
+      [5150, 0.35],
+    ]) {
+      const oscillator = ctx.createOscillator();
+      oscillator.frequency.value = frequency;
+      const gain = this.createEnvelope(now, this.clickVolume * level * 0.4, 0.12);
+      oscillator.connect(gain);
+      oscillator.start(now);
+      oscillator.stop(now + 0.15);
+    }
+    this.playNoiseBurst(now, "highpass", 4000, this.clickVolume * 0.5, 0.02);
+  }
+
+  /**
+   * Clunk: a low thud dropping in pitch, over a dull knock of noise
+   */
+  private playClunk(): void {
+    const ctx = this.audioContext;
+    const now = ctx.currentTime;
+    const oscillator = ctx.createOscillator();
+    oscillator.type = "triangle";
+    oscillator.frequency.setValueAtTime(110, now);
+    oscillator.frequency.exponentialRampToValueAtTime(45, now + 0.25);
+    const gain = this.createEnvelope(now, this.clunkVolume, 0.3);
+    oscillator.connect(gain);
+    oscillator.start(now);
+    oscillator.stop(now + 0.35);
+    this.playNoiseBurst(now, "lowpass", 600, this.clunkVolume * 0.6, 0.08);
+  }
+
+  /**
+   * Squeak: a short rising chirp, like a rubber grip twisting in a hand
+   */
+  private playSqueak(): void {
+    const ctx = this.audioContext;
+    const now = ctx.currentTime;
+    const oscillator = ctx.createOscillator();
+    oscillator.type = "sine";
+    oscillator.frequency.setValueAtTime(1100 + Math.random() * 200, now);
+    oscillator.frequency.exponentialRampToValueAtTime(1800, now + 0.06);
+    const gain = this.createEnvelope(now, this.squeakVolume, 0.08);
+    oscillator.connect(gain);
+    oscillator.start(now);
+    oscillator.stop(now + 0.1);
+  }
+
+  /**
+   * Filtered burst of noise
+   */
+  private playNoiseBurst(start: number, type: BiquadFilterType, frequency: number, level: number, duration: number): void {
+    const ctx = this.audioContext;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noiseBuffer;
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    source.connect(filter).connect(this.createEnvelope(start, level, duration));
+    source.start(start);
+    source.stop(start + duration + 0.05);
+  }
+
+  /**
+   * Gain into the emitter that strikes to a level and decays away over the duration (s)
+   */
+  private createEnvelope(start: number, level: number, duration: number): GainNode {
+    const gain = this.audioContext.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(level, start + 0.003);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    gain.connect(this.emitter.getOutput());
+    return gain;
+  }
+
+  /**
+   * White noise, shared by every noise-based sound
+   */
+  private createNoiseBuffer(seconds: number): AudioBuffer {
+    const ctx = this.audioContext;
+    const buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * seconds), ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    return buffer;
+  }
+
+  /**
+   * Saved volume and mute, or the defaults
+   */
+  private loadSettings(): AudioSettings {
+    const defaults: AudioSettings = { volume: this.volume, muted: this.muted };
+    try {
+      const json = localStorage.getItem(AUDIO_SETTINGS_STORAGE_KEY);
+      if (!json) {
+        return defaults;
+      }
+      const saved = JSON.parse(json) as Partial<AudioSettings>;
+      return {
+        volume: typeof saved.volume === "number" ? THREE.MathUtils.clamp(saved.volume, 0, 1) : defaults.volume,
+        muted: typeof saved.muted === "boolean" ? saved.muted : defaults.muted,
+      };
+    } catch (error) {
+      console.warn("AudioFeedback: Couldn't load audio settings:", error);
+      return defaults;
+    }
+  }
+
+  private saveSettings(): void {
+    try {
+      const settings: AudioSettings = { volume: this.volume, muted: this.muted };
+      localStorage.setItem(AUDIO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn("AudioFeedback: Couldn't save audio settings:", error);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import * as THREE from "three";
+import { Context } from "../context";
+
+const CATCH_INDICATOR_STORAGE_KEY = "bmxr.catchIndicator";
+
+// Segments in a full arc (the arc fills a segment at a time)
+const ARC_SEGMENTS = 32;
+
+/**
+ * The arc drawn flat around one grip marker
+ */
+interface GripArc {
+  side: "left" | "right";
+  mesh: THREE.Mesh<THREE.RingGeometry, THREE.Material>;
+}
+
+/**
+ * CatchIndicator shows on the handlebars when to catch a barspin:
+ * - An arc around each grip fills as the bars come round to the next catch point
+ * - While the bars are within catchWindowAngleMargin of it, the free grips glow
+ * - See-through ghost bars mark where the bars will be at the ideal catch moment, fading in
+ *   as they come round
+ *
+ * It uses GripSystem's marker materials (and their colours for the ghost), so it matches the grips'
+ * own feedback. Turning it off (hardcore mode) leaves only the haptics and sounds; the setting is saved.
+ * Practice mode keeps the ghost bars on whatever the setting (showGhost).
+ */
+export class CatchIndicator {
+  context: Context;
+  enabled: boolean = true;
+
+  // Display
+  arcInnerRadius: number = 0.04; // Just outside the grip marker (m)
+  arcOuterRadius: number = 0.05;
+
+  ghostBarRadius: number = 0.005;
+
+  private arcs: GripArc[] = [];
+  private ghostPivot: THREE.Group; // The bars as they'll sit at the catch point
+  private ghostMaterial: THREE.MeshBasicMaterial;
+  private ghostRequested: boolean = false; // Shown even with the cues off
+
+  constructor(context: Context) {
+    this.context = context;
+    this.enabled = this.loadEnabled();
+
+    this.ghostPivot = new THREE.Group();
+    this.ghostPivot.visible = false;
+    this.context.cameraRig.add(this.ghostPivot);
+    this.ghostMaterial = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.5, depthWrite: false });
+  }
+
+  /**
+   * Show or hide the catch cues (hidden is hardcore mode, and saved)
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.saveEnabled();
+    console.log(`CatchIndicator: ${enabled ? "On" : "Off (hardcore)"}`);
+  }
+
+  /**
+   * Keep the ghost bars on even when the cues are off (practice mode does while it's on)
+   */
+  showGhost(show: boolean): void {
+    this.ghostRequested = show;
+  }
+
+  /**
+   * Update method called each frame, after the grip system has set the markers' materials
+   */
+  update(): void {
+    const { leftGripMarker, rightGripMarker, barspinMechanic: barspin } = this.context;
+    if (!leftGripMarker || !rightGripMarker) {
+      return; // Handlebars still loading
+    }
+    if (this.arcs.length === 0) {
+      this.createVisuals(leftGripMarker, rightGripMarker);
+    }
+
+    const angleToCatch = barspin.getAngleToNextCatch();
+    const catchAngle = barspin.getNextCatchAngle();
+    const materials = this.context.gripSystem.getMarkerMaterials();
+    const margin = barspin.config.catchWindowAngleMargin;
+    const inWindow = angleToCatch !== null && Math.abs(angleToCatch) <= margin;
+
+    this.ghostPivot.visible = (this.enabled || this.ghostRequested) && catchAngle !== null;
+    const handlebars = this.context.handlebars;
+    if (this.ghostPivot.visible && handlebars && catchAngle !== null) {
+      // The bars' place and tilt, turned to the catch angle
+      this.ghostPivot.position.copy(handlebars.position);
+      this.ghostPivot.rotation.set(handlebars.rotation.x, catchAngle, 0);
+
+      // Fade in as the bars come round
+      const approach = (barspin.getSpinRotation() % Math.PI) / Math.PI;
+      this.ghostMaterial.color.copy(inWindow ? materials.highlight.color : materials.normal.color);
+      this.ghostMaterial.opacity = inWindow ? 0.8 : 0.2 + 0.5 * approach;
+    }
+
+    const active = this.enabled && angleToCatch !== null && catchAngle !== null;
+    for (const arc of this.arcs) {
+      arc.mesh.visible = active;
+    }
+    if (!active) {
+      return;
+    }
+
+    // Full as the bars come within the margin
+    const fill = inWindow ? 1 : 1 - THREE.MathUtils.clamp((angleToCatch - margin) / (Math.PI - margin), 0, 1);
+
+    for (const arc of this.arcs) {
+      arc.mesh.geometry.setDrawRange(0, Math.round(fill * ARC_SEGMENTS) * 6);
+      arc.mesh.material = inWindow ? materials.highlight : materials.normal;
+
+      // Glow on the grips still waiting for a hand
+      const marker = arc.side === "left" ? leftGripMarker : rightGripMarker;
+      if (inWindow && !this.isGripHeld(arc.side)) {
+        marker.material = materials.highlight;
+        marker.scale.setScalar(1.3);
+      }
+    }
+  }
+
+  private isGripHeld(side: "left" | "right"): boolean {
+    const gripSystem = this.context.gripSystem;
+    return gripSystem.getAttachedSide("left") === side || gripSystem.getAttachedSide("right") === side;
+  }
+
+  /**
+   * Arcs on the grip markers (so they spin with the bars), and the ghost bars: a thin bar
+   * between ghost grips
+   */
+  private createVisuals(leftGripMarker: THREE.Mesh, rightGripMarker: THREE.Mesh): void {
+    const materials = this.context.gripSystem.getMarkerMaterials();
+    for (const [side, marker] of [
+      ["left", leftGripMarker],
+      ["right", rightGripMarker],
+    ] as const) {
+      // Flat around the grip, facing up at the rider, filling from the front
+      const geometry = new THREE.RingGeometry(this.arcInnerRadius, this.arcOuterRadius, ARC_SEGMENTS, 1, Math.PI / 2);
+      const mesh = new THREE.Mesh<THREE.RingGeometry, THREE.Material>(geometry, materials.normal);
+      mesh.rotation.x = -Math.PI / 2;
+      mesh.visible = false;
+      marker.add(mesh);
+      this.arcs.push({ side, mesh });
+
+      const ghost = new THREE.Mesh(marker.geometry, this.ghostMaterial);
+      ghost.position.copy(marker.position);
+      this.ghostPivot.add(ghost);
+    }
+
+    // Cylinders are built along +Y
+    const length = leftGripMarker.position.distanceTo(rightGripMarker.position);
+    const bar = new THREE.Mesh(new THREE.CylinderGeometry(this.ghostBarRadius, this.ghostBarRadius, length, 8), this.ghostMaterial);
+    bar.position.lerpVectors(leftGripMarker.position, rightGripMarker.position, 0.5);
+    bar.rotation.z = Math.PI / 2;
+    this.ghostPivot.add(bar);
+  }
+
+  private loadEnabled(): boolean {
+    try {
+      const json = localStorage.getItem(CATCH_INDICATOR_STORAGE_KEY);
+      if (!json) {
+        return this.enabled;
+      }
+      const saved = JSON.parse(json) as { enabled?: unknown };
+      return typeof saved.enabled === "boolean" ? saved.enabled : this.enabled;
+    } catch (error) {
+      console.warn("CatchIndicator: Couldn't load the catch indicator setting:", error);
+      return this.enabled;
+    }
+  }
+
+  private saveEnabled(): void {
+    try {
+      localStorage.setItem(CATCH_INDICATOR_STORAGE_KEY, JSON.stringify({ enabled: this.enabled }));
+    } catch (error) {
+      console.warn("CatchIndicator: Couldn't save the catch indicator setting:", error);
+    }
+  }
+}
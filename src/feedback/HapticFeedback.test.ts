@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HeadlessSimulation, ScriptedController } from "../simulation/HeadlessSimulation";
+
+const FRAME_MS = 1000 / 72;
+
+/**
+ * A simulation at a time scale, with the left hand clear of the bars and no pulses yet
+ */
+function startAt(timeScale: number): { sim: HeadlessSimulation; hand: ScriptedController } {
+  const sim = new HeadlessSimulation();
+  const hand = sim.input.left!;
+  hand.wristWPos.set(0, 5, 0);
+  sim.step();
+  sim.clock.setTimeScale(timeScale);
+  hand.vibrations = [];
+  return { sim, hand };
+}
+
+/**
+ * Real time (ms) of every pulse sent to a hand over some frames (pulses already sent are at 0)
+ */
+function recordPulseTimes(sim: HeadlessSimulation, hand: ScriptedController, frames: number): number[] {
+  const times: number[] = hand.vibrations.map(() => 0);
+  for (let frame = 1; frame <= frames; frame++) {
+    const before = hand.vibrations.length;
+    sim.step();
+    for (let i = before; i < hand.vibrations.length; i++) {
+      times.push(frame * FRAME_MS);
+    }
+  }
+  return times;
+}
+
+describe("HapticFeedback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rumbles without gaps in slow motion", () => {
+    const { sim, hand } = startAt(0.25);
+    sim.haptics.setRumble("left", 0.5);
+    const times = recordPulseTimes(sim, hand, 72);
+
+    // A pulse about every rumbleInterval of real time (rounded up to whole frames), each overlapping the next
+    expect(times.length).toBeGreaterThanOrEqual(17);
+    expect(times.length).toBeLessThanOrEqual(21);
+    for (let i = 1; i < times.length; i++) {
+      expect(times[i] - times[i - 1]).toBeLessThanOrEqual(hand.vibrations[i - 1].timeMs);
+    }
+  });
+
+  it("plays patterns at real-time speed in slow motion", () => {
+    const { sim, hand } = startAt(0.25);
+    sim.haptics.play("left", "gripAttach");
+    const times = recordPulseTimes(sim, hand, 72);
+
+    // 80 ms pulse, 20 ms pause, then the second pulse - 100 ms in, as at full speed
+    expect(times).toHaveLength(2);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(100 - FRAME_MS);
+    expect(times[1] - times[0]).toBeLessThanOrEqual(100 + FRAME_MS);
+  });
+});
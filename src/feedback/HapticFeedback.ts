@@ -0,0 +1,288 @@
+import type { Handedness } from "../utils/handInput";
+import type { MechanicsEnvironment } from "../mechanics/MechanicsContext";
+
+const HAPTIC_SETTINGS_STORAGE_KEY = "bmxr.haptics";
+
+/**
+ * Saved haptics strength
+ */
+interface HapticSettings {
+  intensityScale: number;
+}
+
+/**
+ * One piece of a haptic pattern (intensities 0-1, durations in ms)
+ */
+export type HapticSegment =
+  | { type: "pulse"; intensity: number; duration: number }
+  | { type: "pause"; duration: number }
+  | { type: "ramp"; from: number; to: number; duration: number; steps: number }; // Pulses stepping from one intensity to another
+
+/**
+ * Segments played one after another
+ */
+export type HapticPattern = HapticSegment[];
+
+export function pulse(intensity: number, duration: number): HapticSegment {
+  return { type: "pulse", intensity, duration };
+}
+
+export function pause(duration: number): HapticSegment {
+  return { type: "pause", duration };
+}
+
+export function ramp(from: number, to: number, duration: number, steps: number = 5): HapticSegment {
+  return { type: "ramp", from, to, duration, steps };
+}
+
+/**
+ * Join segments and patterns into one pattern
+ */
+export function sequence(...parts: (HapticSegment | HapticPattern)[]): HapticPattern {
+  return parts.flat();
+}
+
+/**
+ * Play a pattern several times with a pause between
+ */
+export function repeat(pattern: HapticPattern, times: number, gap: number): HapticPattern {
+  const repeated: HapticPattern = [];
+  for (let i = 0; i < times; i++) {
+    if (i > 0) {
+      repeated.push(pause(gap));
+    }
+    repeated.push(...pattern);
+  }
+  return repeated;
+}
+
+/**
+ * Patterns the mechanics play by name
+ */
+export const HapticPatterns = {
+  // Grips
+  gripEnter: [pulse(0.3, 50)], // Hand came within reach of a grip
+  gripExit: [pulse(0.1, 30)], // Hand left the grip zone
+  gripAttach: sequence(pulse(0.8, 80), pause(20), pulse(0.4, 40)), // Double pulse - "click into place"
+  gripRelease: [pulse(0.4, 50)],
+  slipWarning: [pulse(1, 40)], // Played scaled by how far the hand has slipped
+
+  // Barspin
+  barspinThrow: [ramp(0.3, 0.8, 120, 3)], // Bars leave the hands
+  catchWindow: [pulse(0.3, 30)], // Light tick as a catch window opens
+  catch: [pulse(1, 60)], // First hand caught the bars
+  catchMissed: repeat([pulse(0.5, 30)], 2, 30), // Grabbed at the wrong moment
+  trickLanded: sequence(pulse(1, 80), pause(40), ramp(0.8, 0.2, 200)), // Both hands back on - strong and satisfying
+  trickFailed: [ramp(0.7, 0, 400)], // Bars dropped - fading buzz
+} satisfies Record<string, HapticPattern>;
+
+export type HapticPatternName = keyof typeof HapticPatterns;
+
+/**
+ * A pattern expanded into timed pulses
+ */
+interface HapticPulse {
+  time: number; // From the start of the pattern (real ms)
+  intensity: number;
+  duration: number;
+}
+
+/**
+ * What one hand is playing
+ */
+interface HapticChannel {
+  pulses: HapticPulse[]; // Current pattern, empty when none is playing
+  startTime: number;
+  endTime: number;
+  timeScale: number; // Mechanics clock time scale when the pattern started
+  nextPulse: number;
+  rumble: number; // Continuous rumble intensity (0 = off), paused while a pattern plays
+  nextRumbleTime: number;
+}
+
+/**
+ * HapticFeedback plays named haptic patterns and continuous rumble on the hands.
+ *
+ * Each hand plays one pattern at a time: starting a pattern cancels the one already
+ * playing on that hand. Rumble is refreshed with short overlapping pulses and pauses
+ * while a pattern plays. Everything runs on the mechanics clock (call update() each frame),
+ * so headless runs and replays see the same pulses. Pulse lengths are real time, so pattern
+ * timings and the rumble interval are shortened on the clock by its time scale: in slow
+ * motion the hands feel the same patterns and unbroken rumble.
+ *
+ * The rider sets how strong it all is in the settings panel (setIntensityScale, saved in localStorage).
+ */
+export class HapticFeedback {
+  environment: MechanicsEnvironment;
+
+  // Configuration
+  intensityScale: number = 1; // Scales every pulse (0 turns haptics off)
+  rumbleInterval: number = 50; // Time between rumble pulses (ms)
+  rumbleOverlap: number = 20; // Rumble pulses run this much longer than the interval, so there are no gaps (ms)
+
+  private channels: Record<Handedness, HapticChannel> = {
+    left: createChannel(),
+    right: createChannel(),
+  };
+
+  constructor(environment: MechanicsEnvironment) {
+    this.environment = environment;
+    this.intensityScale = this.loadSettings().intensityScale;
+  }
+
+  /**
+   * Set how strong every pulse is (0-1, 0 turns haptics off, and save it)
+   */
+  setIntensityScale(scale: number): void {
+    this.intensityScale = Math.min(1, Math.max(0, scale));
+    this.saveSettings();
+  }
+
+  /**
+   * Play a pattern on a hand (or both), cancelling what that hand was playing.
+   * Scale multiplies the pattern's intensities.
+   */
+  play(hand: Handedness | "both", name: HapticPatternName, scale: number = 1): void {
+    for (const side of getSides(hand)) {
+      const channel = this.channels[side];
+      channel.pulses = expandPattern(HapticPatterns[name], scale);
+      channel.startTime = this.environment.clock.now();
+      channel.timeScale = this.environment.clock.timeScale;
+      channel.endTime = channel.startTime + getPatternDuration(HapticPatterns[name]) * channel.timeScale;
+      channel.nextPulse = 0;
+      this.updateChannel(side, channel.startTime);
+    }
+  }
+
+  /**
+   * Rumble continuously at an intensity (0-1) until set to 0 or stopped
+   */
+  setRumble(hand: Handedness | "both", intensity: number): void {
+    for (const side of getSides(hand)) {
+      const channel = this.channels[side];
+      if (channel.rumble <= 0 && intensity > 0) {
+        channel.nextRumbleTime = 0; // Start right away
+      }
+      channel.rumble = Math.max(0, intensity);
+    }
+  }
+
+  /**
+   * Cancel the pattern and rumble on a hand (or both)
+   */
+  stop(hand: Handedness | "both" = "both"): void {
+    for (const side of getSides(hand)) {
+      this.channels[side] = createChannel();
+    }
+  }
+
+  /**
+   * Play the pulses that are due (call once per frame)
+   */
+  update(): void {
+    const now = this.environment.clock.now();
+    this.updateChannel("left", now);
+    this.updateChannel("right", now);
+  }
+
+  private updateChannel(side: Handedness, now: number): void {
+    const channel = this.channels[side];
+
+    if (channel.pulses.length > 0) {
+      while (
+        channel.nextPulse < channel.pulses.length &&
+        channel.startTime + channel.pulses[channel.nextPulse].time * channel.timeScale <= now
+      ) {
+        const next = channel.pulses[channel.nextPulse++];
+        this.vibrate(side, next.intensity, next.duration);
+      }
+      if (now < channel.endTime) {
+        return;
+      }
+      // Pattern finished - rumble picks up again
+      channel.pulses = [];
+      channel.nextRumbleTime = now;
+    }
+
+    if (channel.rumble > 0 && now >= channel.nextRumbleTime) {
+      channel.nextRumbleTime = now + this.rumbleInterval * this.environment.clock.timeScale;
+      this.vibrate(side, channel.rumble, this.rumbleInterval + this.rumbleOverlap);
+    }
+  }
+
+  private vibrate(side: Handedness, intensity: number, duration: number): void {
+    const scaled = Math.min(1, intensity * this.intensityScale);
+    if (scaled <= 0) {
+      return;
+    }
+    this.environment.input.getHand(side)?.vibrate(scaled, duration);
+  }
+
+  // Headless runs have no localStorage, so they keep the default strength
+  private loadSettings(): HapticSettings {
+    const defaults: HapticSettings = { intensityScale: this.intensityScale };
+    try {
+      const json = globalThis.localStorage?.getItem(HAPTIC_SETTINGS_STORAGE_KEY);
+      if (!json) {
+        return defaults;
+      }
+      const saved = JSON.parse(json) as Partial<HapticSettings>;
+      return {
+        intensityScale: typeof saved.intensityScale === "number" ? Math.min(1, Math.max(0, saved.intensityScale)) : defaults.intensityScale,
+      };
+    } catch (error) {
+      console.warn("HapticFeedback: Couldn't load haptic settings:", error);
+      return defaults;
+    }
+  }
+
+  private saveSettings(): void {
+    try {
+      const settings: HapticSettings = { intensityScale: this.intensityScale };
+      globalThis.localStorage?.setItem(HAPTIC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn("HapticFeedback: Couldn't save haptic settings:", error);
+    }
+  }
+}
+
+function createChannel(): HapticChannel {
+  return { pulses: [], startTime: 0, endTime: 0, timeScale: 1, nextPulse: 0, rumble: 0, nextRumbleTime: 0 };
+}
+
+function getSides(hand: Handedness | "both"): Handedness[] {
+  return hand === "both" ? ["left", "right"] : [hand];
+}
+
+/**
+ * Total length of a pattern (ms)
+ */
+function getPatternDuration(pattern: HapticPattern): number {
+  return pattern.reduce((total, segment) => total + segment.duration, 0);
+}
+
+/**
+ * Lay a pattern's segments out as timed pulses
+ */
+function expandPattern(pattern: HapticPattern, scale: number): HapticPulse[] {
+  const pulses: HapticPulse[] = [];
+  let time = 0;
+  for (const segment of pattern) {
+    switch (segment.type) {
+      case "pulse":
+        pulses.push({ time, intensity: segment.intensity * scale, duration: segment.duration });
+        break;
+      case "ramp": {
+        const stepDuration = segment.duration / segment.steps;
+        for (let step = 0; step < segment.steps; step++) {
+          const t = segment.steps > 1 ? step / (segment.steps - 1) : 0;
+          const intensity = segment.from + (segment.to - segment.from) * t;
+          pulses.push({ time: time + step * stepDuration, intensity: intensity * scale, duration: stepDuration });
+        }
+        break;
+      }
+    }
+    time += segment.duration;
+  }
+  return pulses;
+}
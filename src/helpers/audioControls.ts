@@ -0,0 +1,36 @@
+import { Context } from "../context";
+
+/**
+ * Add desktop mute and volume controls for the game's sounds (saved between visits)
+ */
+export function createAudioControls(context: Context): HTMLElement {
+  const audio = context.audioFeedback;
+
+  const container = document.createElement("div");
+  container.style.cssText = "position:absolute;top:50px;right:10px;display:flex;gap:6px;align-items:center;z-index:999";
+
+  const muteButton = document.createElement("button");
+  muteButton.style.cssText =
+    "padding:6px 10px;border:1px solid #fff;border-radius:4px;background:rgba(0,0,0,0.5);color:#fff;font:13px sans-serif;cursor:pointer";
+  const refresh = () => {
+    muteButton.textContent = audio.muted ? "Unmute" : "Mute";
+  };
+  muteButton.addEventListener("click", () => {
+    audio.setMuted(!audio.muted);
+    refresh();
+  });
+
+  const volume = document.createElement("input");
+  volume.type = "range";
+  volume.min = "0";
+  volume.max = "1";
+  volume.step = "0.05";
+  volume.value = audio.volume.toString();
+  volume.title = "Volume";
+  volume.addEventListener("input", () => audio.setVolume(parseFloat(volume.value)));
+
+  refresh();
+  container.append(muteButton, volume);
+  document.body.appendChild(container);
+  return container;
+}
@@ -0,0 +1,69 @@
+import { Context } from "../context";
+import { VirtualInputSource } from "../utils/xrVirtualInput";
+import { DesktopEmulatorHelp, XrDesktopEmulator } from "../utils/xrDesktopEmulator";
+import { GamepadInputHelp, XrGamepadInput } from "../utils/xrGamepadInput";
+
+/**
+ * Add desktop buttons that switch keyboard/mouse emulation or gamepad input on and off,
+ * with a help panel for the active one. Entering VR or starting a replay switches them off.
+ */
+export function createDesktopControls(context: Context): HTMLElement {
+  const container = document.createElement("div");
+  container.style.cssText = "position:absolute;top:10px;left:100px;display:flex;flex-direction:column;gap:6px;z-index:999";
+
+  const buttons = document.createElement("div");
+  buttons.style.cssText = "display:flex;gap:6px";
+
+  const help = document.createElement("div");
+  help.style.cssText = "padding:6px 10px;border-radius:4px;background:rgba(0,0,0,0.5);color:#fff;font:12px sans-serif;line-height:1.5";
+
+  const toggles = [
+    {
+      label: "Desktop controllers",
+      help: DesktopEmulatorHelp,
+      isActive: (source: VirtualInputSource | null) => source instanceof XrDesktopEmulator,
+      create: () => new XrDesktopEmulator(context),
+    },
+    {
+      label: "Gamepad",
+      help: GamepadInputHelp,
+      isActive: (source: VirtualInputSource | null) => source instanceof XrGamepadInput,
+      create: () => new XrGamepadInput(context),
+    },
+  ].map((toggle) => ({ ...toggle, button: createButton(toggle.label) }));
+
+  const refresh = (source: VirtualInputSource | null) => {
+    const active = toggles.find((toggle) => toggle.isActive(source));
+    for (const toggle of toggles) {
+      toggle.button.textContent = toggle === active ? `Stop ${toggle.label.toLowerCase()}` : toggle.label;
+    }
+    help.innerHTML = active ? active.help.join("<br>") : "";
+    help.style.display = active ? "block" : "none";
+  };
+
+  for (const toggle of toggles) {
+    toggle.button.addEventListener("click", () => {
+      if (toggle.isActive(context.xrInput.getSource())) {
+        context.xrInput.clearSource();
+      } else {
+        context.xrInput.setSource(toggle.create());
+      }
+      toggle.button.blur(); // Keep emulator keys from re-triggering the button
+    });
+    buttons.appendChild(toggle.button);
+  }
+  context.xrInput.onSourceChange(refresh);
+
+  refresh(context.xrInput.getSource());
+  container.append(buttons, help);
+  document.body.appendChild(container);
+  return container;
+}
+
+function createButton(label: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.cssText =
+    "padding:6px 10px;border:1px solid #fff;border-radius:4px;background:rgba(0,0,0,0.5);color:#fff;font:13px sans-serif;cursor:pointer";
+  return button;
+}
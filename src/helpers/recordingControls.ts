@@ -0,0 +1,54 @@
+import { Context } from "../context";
+import { downloadInputRecording, parseInputRecording } from "../utils/xrInputRecording";
+
+/**
+ * Add desktop buttons to download the last recorded input session and to replay a recording file.
+ * VR sessions are recorded automatically (see Context.setupVRSessionListeners).
+ */
+export function createRecordingControls(context: Context): HTMLElement {
+  const container = document.createElement("div");
+  container.style.cssText = "position:absolute;top:10px;right:10px;display:flex;gap:6px;z-index:999";
+
+  const downloadButton = createButton("Download recording");
+  downloadButton.addEventListener("click", () => {
+    const recording = context.xrInputRecorder.lastRecording;
+    if (!recording) {
+      console.warn("No input recording yet - enter VR to record a session");
+      return;
+    }
+    downloadInputRecording(recording);
+  });
+
+  // Hidden file picker behind the replay button
+  const fileInput = document.createElement("input");
+  fileInput.type = "file";
+  fileInput.accept = "application/json,.json";
+  fileInput.style.display = "none";
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = "";
+    if (!file) return;
+
+    try {
+      const recording = parseInputRecording(await file.text());
+      context.startReplay(recording);
+    } catch (error) {
+      console.error("Couldn't replay input recording:", error);
+    }
+  });
+
+  const replayButton = createButton("Replay recording");
+  replayButton.addEventListener("click", () => fileInput.click());
+
+  container.append(downloadButton, replayButton, fileInput);
+  document.body.appendChild(container);
+  return container;
+}
+
+function createButton(label: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.cssText =
+    "padding:6px 10px;border:1px solid #fff;border-radius:4px;background:rgba(0,0,0,0.5);color:#fff;font:13px sans-serif;cursor:pointer";
+  return button;
+}
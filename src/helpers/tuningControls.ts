@@ -0,0 +1,105 @@
+import { Context } from "../context";
+import { downloadTuning, formatTuningValue } from "../utils/tuning";
+
+/**
+ * Add a desktop tuning overlay: every tunable parameter as a number field that applies as it's
+ * typed, with buttons to export the values as a JSON file and to import one.
+ * Keys typed into the fields don't reach the desktop controller emulator.
+ */
+export function createTuningControls(context: Context): HTMLElement {
+  const tuning = context.tuning;
+
+  const container = document.createElement("div");
+  container.style.cssText =
+    "position:absolute;top:90px;right:10px;display:flex;flex-direction:column;align-items:flex-end;gap:6px;z-index:999";
+
+  const panel = document.createElement("div");
+  panel.style.cssText =
+    "display:none;max-height:70vh;overflow-y:auto;padding:6px 10px;border-radius:4px;background:rgba(0,0,0,0.7);color:#fff;font:12px sans-serif";
+  panel.addEventListener("keydown", (event) => event.stopPropagation());
+  panel.addEventListener("keyup", (event) => event.stopPropagation());
+
+  const inputs = new Map<string, HTMLInputElement>();
+  let group = "";
+  for (const parameter of tuning.parameters) {
+    if (parameter.group !== group) {
+      group = parameter.group;
+      const heading = document.createElement("div");
+      heading.textContent = group;
+      heading.style.cssText = "margin:6px 0 2px;font-weight:bold;color:#FFDD00";
+      panel.appendChild(heading);
+    }
+
+    const row = document.createElement("label");
+    row.style.cssText = "display:flex;justify-content:space-between;gap:10px;line-height:22px";
+    row.textContent = parameter.label;
+
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = parameter.step.toString();
+    input.style.cssText = "width:80px";
+    input.addEventListener("input", () => tuning.setValue(parameter, parseFloat(input.value)));
+    row.appendChild(input);
+    panel.appendChild(row);
+    inputs.set(parameter.id, input);
+  }
+
+  // Hidden file picker behind the import button
+  const fileInput = document.createElement("input");
+  fileInput.type = "file";
+  fileInput.accept = "application/json,.json";
+  fileInput.style.display = "none";
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = "";
+    if (!file) return;
+
+    try {
+      tuning.import(await file.text());
+    } catch (error) {
+      console.error("Couldn't import tuning:", error);
+    }
+  });
+
+  const fileButtons = document.createElement("div");
+  fileButtons.style.cssText = "display:flex;gap:6px;margin-top:8px";
+  const exportButton = createButton("Export JSON");
+  exportButton.addEventListener("click", () => downloadTuning(tuning.export()));
+  const importButton = createButton("Import JSON");
+  importButton.addEventListener("click", () => fileInput.click());
+  fileButtons.append(exportButton, importButton, fileInput);
+  panel.appendChild(fileButtons);
+
+  // Show the live values, leaving the field being typed in alone
+  const refresh = () => {
+    for (const parameter of tuning.parameters) {
+      const input = inputs.get(parameter.id);
+      if (input && input !== document.activeElement) {
+        input.value = formatTuningValue(parameter.get());
+      }
+    }
+  };
+  tuning.onChange(refresh);
+
+  const toggleButton = createButton("Tuning");
+  toggleButton.addEventListener("click", () => {
+    const open = panel.style.display === "none";
+    panel.style.display = open ? "block" : "none";
+    if (open) {
+      refresh(); // Presets may have changed values since
+    }
+    toggleButton.blur(); // Keep emulator keys from re-triggering the button
+  });
+
+  container.append(toggleButton, panel);
+  document.body.appendChild(container);
+  return container;
+}
+
+function createButton(label: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.cssText =
+    "padding:6px 10px;border:1px solid #fff;border-radius:4px;background:rgba(0,0,0,0.5);color:#fff;font:13px sans-serif;cursor:pointer";
+  return button;
+}
@@ -1,6 +1,16 @@
 import * as THREE from "three";
-import { Context } from "../context";
 import { GripSystem } from "./GripSystem";
+import { MechanicsContext, toRealTimeRate } from "./MechanicsContext";
+import { TrickEvent, TrickMechanic, TrickStateTable } from "./TrickMechanic";
+
+// Working variables to prevent allocations
+const __deltaQuat = new THREE.Quaternion();
+const __handlebarQuat = new THREE.Quaternion();
+const __stemAxis = new THREE.Vector3();
+const __handPos = new THREE.Vector3();
+
+// Bars can be caught after every half turn (180, 360, 540, ...)
+const HalfTurn = Math.PI;
 
 /**
  * Barspin trick states
@@ -23,21 +33,53 @@ export type BarspinEventType =
   | "spinning"         // Both hands released, spinning started
   | "catchWindowOpen"  // Catch window is now available
   | "catchWindowClose" // Catch window closed
+  | "catchMissed"      // Grip pressed while the bar was outside the catch margin
   | "firstCatch"       // First hand caught
   | "secondCatch"      // Second hand caught (success)
   | "success"          // Full barspin completed successfully
   | "failed";          // Barspin failed
 
-export interface BarspinEvent {
+export interface BarspinEvent extends TrickEvent<BarspinState> {
   type: BarspinEventType;
   previousState?: BarspinState;
   currentState: BarspinState;
   spinDirection?: "clockwise" | "counterclockwise";
-  spinProgress?: number; // 0-1 representing rotation progress
+  spinProgress?: number; // Rotations completed (1 = 360, continues past one turn)
+  rotation?: number; // Catch point in degrees (180, 360, 540, 720, ...)
+  spinVelocity?: number; // Current handlebar spin rate (rad/s)
   hand?: "left" | "right";
+  catchSide?: "left" | "right"; // Side of the bar the hand caught
+  angleError?: number; // Signed angle between hand and grip at the catch (radians, negative = early)
+  timingError?: number; // Signed time from the ideal catch moment (ms, negative = early)
+  catchAccuracy?: number; // 0-1 on success, 1 = both hands dead on their grips
+  reason?: BarspinFailureReason;
+}
+
+/**
+ * Result of judging a hand against the grip currently passing it
+ */
+interface CatchAttempt {
+  side: "left" | "right";
+  angleError: number;
+  timingError: number;
 }
 
-type BarspinEventListener = (event: BarspinEvent) => void;
+/**
+ * Why a barspin attempt failed
+ */
+export type BarspinFailureReason =
+  | "timeout"       // Second hand never released during initiation
+  | "weakThrow"     // Bars released without enough wrist rotation
+  | "stalled"       // Spin decayed before reaching the catch window
+  | "missedCatch";  // Catch window closed without both hands catching
+
+/**
+ * Orientation sample of the gripping wrist used for angular velocity tracking
+ */
+interface WristSample {
+  time: number;
+  quaternion: THREE.Quaternion;
+}
 
 /**
  * Configuration for barspin mechanic
@@ -51,9 +93,20 @@ export interface BarspinConfig {
   catchWindowDuration: number;     // Duration of catch window (ms)
   catchWindowAngleMargin: number;  // Angular margin for successful catch (radians)
 
+  // Spin physics
+  angularVelocityWindow: number;   // Time span of wrist samples used for velocity (ms)
+  spinVelocityMultiplier: number;  // Wrist angular velocity -> handlebar spin rate
+  maxSpinVelocity: number;         // Upper bound on handlebar spin rate (rad/s)
+  spinDecay: number;               // Exponential spin decay rate (1/s)
+  minSpinVelocity: number;         // Spin rate below which the bars have stalled (rad/s)
+  failureSpinDecay: number;        // Faster spin decay once the bars have been dropped (1/s)
+
   // Reset timing
   failureResetDelay: number;       // Delay before reset after failure (ms)
   successResetDelay: number;       // Delay before reset after success (ms)
+
+  // Feedback
+  spinRumbleIntensity: number;     // Rumble at max spin speed while the bars spin (scales with spin speed)
 }
 
 /**
@@ -63,31 +116,43 @@ export interface BarspinConfig {
  * 1. READY - Both hands gripping
  * 2. INITIATED - One hand releases, rotation detected
  * 3. SPINNING - Both hands released, handlebar spinning
- * 4. CATCH_WINDOW - Time to catch the bars
+ * 4. CATCH_WINDOW - Time to catch the bars (each hand must be within the angle margin of a grip)
+ *    Opens around every half turn; an uncaught window closes and the bars keep spinning
  * 5. CAUGHT/FAILED - Result of the attempt
+ *
+ * Odd half turns (180, 540) land with the bars swapped, so each hand must
+ * catch the grip from the opposite side.
  */
-export class BarspinMechanic {
-  context: Context;
+export class BarspinMechanic extends TrickMechanic<BarspinState, BarspinEvent> {
+  readonly name = "Barspin";
   gripSystem: GripSystem;
 
-  // Current state
-  private _state: BarspinState = BarspinState.READY;
-  private previousState: BarspinState = BarspinState.READY;
-
   // Spin tracking
   spinDirection: "clockwise" | "counterclockwise" | null = null;
   spinStartTime: number = 0;
-  spinProgress: number = 0; // 0-1 representing rotation completion
+  spinProgress: number = 0; // Rotations completed (1 = 360, continues past one turn)
   currentRotation: number = 0; // Current handlebar rotation in radians
-  targetRotation: number = Math.PI * 2; // Full 360 spin
+  barOrientation: number = 0; // Resting angle of the bars around the stem (π after landing a 180 or 540)
+  spinVelocity: number = 0; // Current handlebar spin rate in rad/s (always positive)
 
   // Initiation tracking
   initiatingHand: "left" | "right" | null = null;
   initiationStartTime: number = 0;
 
+  // Wrist angular velocity tracking (gripping hand during INITIATED)
+  angularVelocity: number = 0; // Signed rad/s about the stem axis (positive = counterclockwise from above)
+  peakAngularVelocity: number = 0; // Strongest signed angular velocity seen during initiation
+  private wristSamples: WristSample[] = [];
+
   // Catch tracking
   catchWindowStartTime: number = 0;
   firstCatchHand: "left" | "right" | null = null;
+  firstCatchSide: "left" | "right" | null = null;
+  firstCatchAngleError: number = 0; // Angle error of the first hand's catch (radians)
+  catchPointIndex: number = 0; // Half turns at the current/last catch window (1 = 180, 2 = 360, ...)
+  landedRotation: number | null = null; // Degrees of the landed spin once caught
+
+  private isRumbling: boolean = false;
 
   // Configuration
   config: BarspinConfig = {
@@ -95,266 +160,91 @@ export class BarspinMechanic {
     initiationTimeout: 500,        // 500ms to initiate after first release
     catchWindowDuration: 400,      // 400ms catch window - forgiving for MVP
     catchWindowAngleMargin: Math.PI / 6, // ±30 degrees margin
+    angularVelocityWindow: 100,    // Velocity over the last 100ms of wrist motion
+    spinVelocityMultiplier: 2.5,   // Bars spin faster than the wrist throwing them
+    maxSpinVelocity: 30,           // ~5 rotations per second
+    spinDecay: 0.8,                // Bearing friction slows the bars over time
+    minSpinVelocity: 2,            // Below this the bars have effectively stopped
+    failureSpinDecay: 4,           // Dropped bars wind down within about a second
     failureResetDelay: 1500,       // 1.5s delay after failure
     successResetDelay: 2000,       // 2s delay after success
+    spinRumbleIntensity: 0.6,      // Strong enough to feel the bars whirring, below the catch pulses
   };
 
-  // Event listeners
-  private listeners: Map<BarspinEventType, BarspinEventListener[]> = new Map();
-
-  // Debug visualization
-  private debugText: THREE.Sprite | null = null;
-  private debugTextCanvas: HTMLCanvasElement | null = null;
-  private debugTextContext: CanvasRenderingContext2D | null = null;
-
-  // State colors for debug visualization
-  private stateColors: Record<BarspinState, string> = {
-    [BarspinState.READY]: "#00FF00",        // Green
-    [BarspinState.INITIATED]: "#FFFF00",    // Yellow
-    [BarspinState.SPINNING]: "#FF8800",     // Orange
-    [BarspinState.CATCH_WINDOW]: "#00FFFF", // Cyan
-    [BarspinState.CAUGHT]: "#00FF88",       // Teal
-    [BarspinState.FAILED]: "#FF0000",       // Red
+  // State table
+  protected readonly states: TrickStateTable<BarspinState> = {
+    [BarspinState.READY]: {
+      transitions: [BarspinState.INITIATED],
+      color: "#00FF00", // Green
+    },
+    [BarspinState.INITIATED]: {
+      transitions: [BarspinState.SPINNING, BarspinState.READY, BarspinState.FAILED],
+      color: "#FFFF00", // Yellow
+      timeout: {
+        // Failed to complete initiation in time
+        duration: () => this.config.initiationTimeout,
+        onTimeout: () => this.fail("timeout"),
+      },
+    },
+    [BarspinState.SPINNING]: {
+      transitions: [BarspinState.CATCH_WINDOW, BarspinState.FAILED],
+      color: "#FF8800", // Orange
+    },
+    [BarspinState.CATCH_WINDOW]: {
+      transitions: [BarspinState.CAUGHT, BarspinState.FAILED, BarspinState.SPINNING],
+      color: "#00FFFF", // Cyan
+    },
+    [BarspinState.CAUGHT]: {
+      transitions: [BarspinState.READY],
+      color: "#00FF88", // Teal
+      resetAfter: () => this.config.successResetDelay,
+    },
+    [BarspinState.FAILED]: {
+      transitions: [BarspinState.READY],
+      color: "#FF0000", // Red
+      resetAfter: () => this.config.failureResetDelay,
+    },
   };
 
-  constructor(context: Context) {
-    this.context = context;
+  constructor(context: MechanicsContext) {
+    super(context, BarspinState.READY);
     this.gripSystem = context.gripSystem;
-
-    // Initialize event listener maps
-    this.initializeEventListeners();
-
-    // Setup grip system event listeners
-    this.setupGripEventListeners();
-
-    // Create debug visualization
-    this.createDebugVisualization();
-  }
-
-  /**
-   * Initialize event listener maps
-   */
-  private initializeEventListeners(): void {
-    const eventTypes: BarspinEventType[] = [
-      "stateChange",
-      "initiated",
-      "spinning",
-      "catchWindowOpen",
-      "catchWindowClose",
-      "firstCatch",
-      "secondCatch",
-      "success",
-      "failed",
-    ];
-
-    for (const type of eventTypes) {
-      this.listeners.set(type, []);
-    }
-  }
-
-  /**
-   * Setup listeners for grip system events
-   */
-  private setupGripEventListeners(): void {
-    // Listen for grip releases to detect barspin initiation
-    this.gripSystem.addEventListener("gripEnd", (event) => {
-      this.onGripReleased(event.hand);
-    });
-
-    // Listen for grip starts to detect catches
-    this.gripSystem.addEventListener("gripStart", (event) => {
-      this.onGripPressed(event.hand);
-    });
-  }
-
-  /**
-   * Create debug text sprite for state visualization
-   */
-  private createDebugVisualization(): void {
-    // Create canvas for text
-    this.debugTextCanvas = document.createElement("canvas");
-    this.debugTextCanvas.width = 512;
-    this.debugTextCanvas.height = 128;
-    this.debugTextContext = this.debugTextCanvas.getContext("2d");
-
-    // Create texture from canvas
-    const texture = new THREE.CanvasTexture(this.debugTextCanvas);
-    texture.needsUpdate = true;
-
-    // Create sprite material
-    const material = new THREE.SpriteMaterial({
-      map: texture,
-      transparent: true,
-    });
-
-    // Create sprite
-    this.debugText = new THREE.Sprite(material);
-    this.debugText.scale.set(1.0, 0.25, 1);
-    this.debugText.position.set(0, 0.3, -0.45); // Above handlebars
-
-    // Add to camera rig so it moves with player
-    this.context.cameraRig.add(this.debugText);
-
-    // Initial render
-    this.updateDebugVisualization();
-  }
-
-  /**
-   * Update debug text visualization
-   */
-  private updateDebugVisualization(): void {
-    if (!this.debugTextContext || !this.debugTextCanvas || !this.debugText) {
-      return;
-    }
-
-    const ctx = this.debugTextContext;
-    const canvas = this.debugTextCanvas;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Background
-    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // State text
-    ctx.font = "bold 48px Arial";
-    ctx.fillStyle = this.stateColors[this._state];
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.fillText(this._state, canvas.width / 2, canvas.height / 3);
-
-    // Progress bar for spinning state
-    if (this._state === BarspinState.SPINNING || this._state === BarspinState.CATCH_WINDOW) {
-      const barWidth = canvas.width - 40;
-      const barHeight = 20;
-      const barX = 20;
-      const barY = canvas.height - 40;
-
-      // Background bar
-      ctx.fillStyle = "#333333";
-      ctx.fillRect(barX, barY, barWidth, barHeight);
-
-      // Progress bar
-      ctx.fillStyle = this.stateColors[this._state];
-      ctx.fillRect(barX, barY, barWidth * this.spinProgress, barHeight);
-
-      // Border
-      ctx.strokeStyle = "#FFFFFF";
-      ctx.lineWidth = 2;
-      ctx.strokeRect(barX, barY, barWidth, barHeight);
-    }
-
-    // Update texture
-    const material = this.debugText.material as THREE.SpriteMaterial;
-    if (material.map) {
-      material.map.needsUpdate = true;
-    }
-  }
-
-  /**
-   * Get current state
-   */
-  get state(): BarspinState {
-    return this._state;
   }
 
   /**
-   * Set state with validation and event emission
+   * Extra fields to include on stateChange events
    */
-  private setState(newState: BarspinState): void {
-    if (newState === this._state) {
-      return;
-    }
-
-    // Validate state transition
-    if (!this.isValidTransition(this._state, newState)) {
-      console.warn(`Invalid barspin state transition: ${this._state} -> ${newState}`);
-      return;
-    }
-
-    this.previousState = this._state;
-    this._state = newState;
-
-    console.log(`Barspin state: ${this.previousState} -> ${this._state}`);
-
-    // Emit state change event
-    this.emitEvent({
-      type: "stateChange",
-      previousState: this.previousState,
-      currentState: this._state,
+  protected getStateChangeDetails(): Partial<BarspinEvent> {
+    return {
       spinDirection: this.spinDirection || undefined,
       spinProgress: this.spinProgress,
-    });
-
-    // Update debug visualization
-    this.updateDebugVisualization();
-  }
-
-  /**
-   * Validate if a state transition is allowed
-   */
-  private isValidTransition(from: BarspinState, to: BarspinState): boolean {
-    const validTransitions: Record<BarspinState, BarspinState[]> = {
-      [BarspinState.READY]: [BarspinState.INITIATED],
-      [BarspinState.INITIATED]: [BarspinState.SPINNING, BarspinState.READY, BarspinState.FAILED],
-      [BarspinState.SPINNING]: [BarspinState.CATCH_WINDOW, BarspinState.FAILED],
-      [BarspinState.CATCH_WINDOW]: [BarspinState.CAUGHT, BarspinState.FAILED],
-      [BarspinState.CAUGHT]: [BarspinState.READY], // Reset after success
-      [BarspinState.FAILED]: [BarspinState.READY], // Reset after failure
     };
-
-    return validTransitions[from]?.includes(to) ?? false;
   }
 
   /**
-   * Add event listener
+   * Progress towards the next half turn while the bars are spinning
    */
-  addEventListener(type: BarspinEventType, listener: BarspinEventListener): void {
-    const listeners = this.listeners.get(type);
-    if (listeners) {
-      listeners.push(listener);
-    }
-  }
-
-  /**
-   * Remove event listener
-   */
-  removeEventListener(type: BarspinEventType, listener: BarspinEventListener): void {
-    const listeners = this.listeners.get(type);
-    if (listeners) {
-      const index = listeners.indexOf(listener);
-      if (index !== -1) {
-        listeners.splice(index, 1);
-      }
-    }
-  }
-
-  /**
-   * Emit event to listeners
-   */
-  private emitEvent(event: BarspinEvent): void {
-    const listeners = this.listeners.get(event.type);
-    if (listeners) {
-      for (const listener of listeners) {
-        listener(event);
-      }
+  protected getDebugProgress(): number | null {
+    if (!this.isSpinning()) {
+      return null;
     }
+    return (this.currentRotation % HalfTurn) / HalfTurn;
   }
 
   /**
    * Handle grip release event
    */
-  private onGripReleased(hand: "left" | "right"): void {
+  protected onGripEnd(hand: "left" | "right"): boolean {
     switch (this._state) {
       case BarspinState.READY:
         // First hand released - potential initiation
         if (this.gripSystem.areBothHandsAttached() === false) {
-          // Check if one hand is still gripping
+          // Check if one hand is still gripping, and take both hands for the trick
           const otherHand = hand === "left" ? "right" : "left";
-          if (this.gripSystem.isHandAttached(otherHand)) {
+          if (this.gripSystem.isHandAttached(otherHand) && this.claimHands("left", "right")) {
             this.initiatingHand = hand;
-            this.initiationStartTime = performance.now();
+            this.initiationStartTime = this.now();
+            this.resetAngularVelocityTracking();
             this.setState(BarspinState.INITIATED);
 
             this.emitEvent({
@@ -362,63 +252,118 @@ export class BarspinMechanic {
               currentState: this._state,
               hand: hand,
             });
+            return true;
           }
         }
-        break;
+        return false;
 
       case BarspinState.INITIATED:
-        // Second hand released - start spinning
-        this.spinStartTime = performance.now();
+        // Second hand released - only spins if the bars were actually thrown
+        if (Math.abs(this.peakAngularVelocity) < this.config.minRotationVelocity) {
+          this.fail("weakThrow");
+          return true;
+        }
+
+        this.spinStartTime = this.now();
         this.spinProgress = 0;
         this.currentRotation = 0;
-        // Spin direction determined by which hand initiated
-        this.spinDirection = this.initiatingHand === "right" ? "clockwise" : "counterclockwise";
+        this.spinVelocity = Math.min(
+          Math.abs(this.peakAngularVelocity) * this.config.spinVelocityMultiplier,
+          this.config.maxSpinVelocity
+        );
+        // Spin direction follows the direction the gripping wrist rotated
+        this.spinDirection = this.peakAngularVelocity < 0 ? "clockwise" : "counterclockwise";
 
         this.setState(BarspinState.SPINNING);
+        this.context.haptics.play("both", "barspinThrow");
 
         this.emitEvent({
           type: "spinning",
           currentState: this._state,
           spinDirection: this.spinDirection,
+          spinVelocity: this.spinVelocity,
         });
-        break;
+        return true;
     }
+
+    return false;
   }
 
   /**
    * Handle grip press event
    */
-  private onGripPressed(hand: "left" | "right"): void {
+  protected onGripStart(hand: "left" | "right"): boolean {
     switch (this._state) {
       case BarspinState.INITIATED:
         // Re-gripped before spinning - cancel
-        this.resetToReady();
-        break;
+        this.reset();
+        return true;
+
+      case BarspinState.CATCH_WINDOW: {
+        // Attempting to catch - judge the hand against the grip passing it
+        if (hand === this.firstCatchHand) {
+          return false;
+        }
+
+        const attempt = this.evaluateCatch(hand);
+        if (
+          !attempt ||
+          Math.abs(attempt.angleError) > this.config.catchWindowAngleMargin ||
+          attempt.side !== this.getExpectedCatchSide(hand)
+        ) {
+          this.context.haptics.play(hand, "catchMissed");
+          this.emitEvent({
+            type: "catchMissed",
+            currentState: this._state,
+            hand: hand,
+            spinProgress: this.spinProgress,
+            rotation: this.catchPointIndex * 180,
+            catchSide: attempt?.side,
+            angleError: attempt?.angleError,
+            timingError: attempt?.timingError,
+          });
+          return true;
+        }
 
-      case BarspinState.CATCH_WINDOW:
-        // Attempting to catch
         if (this.firstCatchHand === null) {
-          // First catch
+          // First catch - the caught grip stops the bars and locks in the rotation
           this.firstCatchHand = hand;
+          this.firstCatchSide = attempt.side;
+          this.firstCatchAngleError = attempt.angleError;
+          this.landedRotation = this.catchPointIndex * 180;
+          this.spinVelocity = 0;
+          // Give the second hand a full window to follow up
+          this.catchWindowStartTime = this.now();
+          this.context.haptics.play(hand, "catch");
 
           this.emitEvent({
             type: "firstCatch",
             currentState: this._state,
             hand: hand,
             spinProgress: this.spinProgress,
+            rotation: this.landedRotation,
+            catchSide: attempt.side,
+            angleError: attempt.angleError,
+            timingError: attempt.timingError,
           });
-
-          // Check if second catch follows quickly (both hands catch)
-          // For MVP, we'll check in update loop
-        } else if (this.firstCatchHand !== hand) {
-          // Second hand caught - success!
+        } else {
+          // Second hand caught the other grip - success!
+          // Odd half turns leave the bars swapped around the stem
+          if (this.catchPointIndex % 2 === 1) {
+            this.barOrientation = this.wrapAngle(this.barOrientation + HalfTurn);
+          }
           this.setState(BarspinState.CAUGHT);
+          this.context.haptics.play("both", "trickLanded");
 
           this.emitEvent({
             type: "secondCatch",
             currentState: this._state,
             hand: hand,
             spinProgress: this.spinProgress,
+            rotation: this.landedRotation ?? undefined,
+            catchSide: attempt.side,
+            angleError: attempt.angleError,
+            timingError: attempt.timingError,
           });
 
           this.emitEvent({
@@ -426,21 +371,100 @@ export class BarspinMechanic {
             currentState: this._state,
             spinDirection: this.spinDirection || undefined,
             spinProgress: this.spinProgress,
+            rotation: this.landedRotation ?? undefined,
+            catchAccuracy: this.getCatchAccuracy(attempt.angleError),
           });
-
-          // Schedule reset
-          setTimeout(() => {
-            this.resetToReady();
-          }, this.config.successResetDelay);
         }
-        break;
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Accuracy of the landed catch (0-1), judged by the sloppier of the two hands
+   */
+  private getCatchAccuracy(secondAngleError: number): number {
+    const worstError = Math.max(Math.abs(this.firstCatchAngleError), Math.abs(secondAngleError));
+    return THREE.MathUtils.clamp(1 - worstError / this.config.catchWindowAngleMargin, 0, 1);
+  }
+
+  /**
+   * Judge a hand against the grip it just closed on (from GripSystem's attachment).
+   * Returns null if the hand's controller isn't tracked or it isn't attached.
+   */
+  private evaluateCatch(hand: "left" | "right"): CatchAttempt | null {
+    const handAngle = this.getHandAngle(hand);
+    const side = this.gripSystem.getAttachedSide(hand);
+    if (handAngle === null || side === null) {
+      return null;
     }
+
+    // Positive error along the spin direction means the grip has already passed (late)
+    const angleError = this.wrapAngle(this.getGripAngle(side) - handAngle) * this.getSpinSign();
+    const timingError = this.spinVelocity > 0 ? (angleError / this.spinVelocity) * 1000 : 0;
+
+    return { side, angleError, timingError };
+  }
+
+  /**
+   * The grip a hand has to catch at the current catch point.
+   * Odd half turns (180, 540) swap the grips, so the hand takes the opposite side.
+   */
+  private getExpectedCatchSide(hand: "left" | "right"): "left" | "right" {
+    const barsSwapped = Math.cos(this.barOrientation) < 0;
+    const startSide = barsSwapped ? (hand === "left" ? "right" : "left") : hand;
+    if (this.catchPointIndex % 2 === 0) {
+      return startSide;
+    }
+    return startSide === "left" ? "right" : "left";
+  }
+
+  /**
+   * Current angle of a grip around the stem (right grip rests at 0, left at π, plus any swap)
+   */
+  getGripAngle(side: "left" | "right"): number {
+    const restAngle = (side === "right" ? 0 : Math.PI) + this.barOrientation;
+    return this.wrapAngle(restAngle + this.currentRotation * this.getSpinSign());
+  }
+
+  /**
+   * Angle of a hand around the stem, measured in the handlebars' parent space
+   */
+  private getHandAngle(hand: "left" | "right"): number | null {
+    const controller = this.context.environment.input.getHand(hand);
+    const handlebars = this.context.handlebars;
+    if (!controller?.isTracked || !handlebars || !handlebars.parent) {
+      return null;
+    }
+
+    __handPos.copy(controller.wristWPos);
+    handlebars.parent.worldToLocal(__handPos);
+    __handPos.sub(handlebars.position);
+
+    // Same convention as a rotation about +Y: +X is 0, -Z is +π/2
+    return Math.atan2(-__handPos.z, __handPos.x);
+  }
+
+  /**
+   * +1 for counterclockwise spins, -1 for clockwise
+   */
+  private getSpinSign(): number {
+    return this.spinDirection === "clockwise" ? -1 : 1;
+  }
+
+  /**
+   * Wrap an angle to [-π, π]
+   */
+  private wrapAngle(angle: number): number {
+    return Math.atan2(Math.sin(angle), Math.cos(angle));
   }
 
   /**
    * Update method called each frame
    */
-  update(deltaTime: number): void {
+  protected onUpdate(deltaTime: number): void {
     switch (this._state) {
       case BarspinState.READY:
         this.updateReadyState();
@@ -457,11 +481,25 @@ export class BarspinMechanic {
       case BarspinState.CATCH_WINDOW:
         this.updateCatchWindowState(deltaTime);
         break;
+
+      case BarspinState.FAILED:
+        this.updateFailedState(deltaTime);
+        break;
     }
 
-    // Update debug visualization each frame when spinning
-    if (this._state === BarspinState.SPINNING || this._state === BarspinState.CATCH_WINDOW) {
-      this.updateDebugVisualization();
+    this.updateSpinRumble();
+  }
+
+  /**
+   * Rumble both hands with the spin speed while the bars are in the air
+   */
+  private updateSpinRumble(): void {
+    const intensity = this.isSpinning()
+      ? this.config.spinRumbleIntensity * (this.spinVelocity / this.config.maxSpinVelocity)
+      : 0;
+    if (intensity > 0 || this.isRumbling) {
+      this.context.haptics.setRumble("both", intensity);
+      this.isRumbling = intensity > 0;
     }
   }
 
@@ -477,47 +515,106 @@ export class BarspinMechanic {
    * Update INITIATED state
    */
   private updateInitiatedState(): void {
-    const elapsed = performance.now() - this.initiationStartTime;
+    // Track how hard the still-gripping hand is throwing the bars
+    // (the initiation timeout is handled by the state table)
+    this.updateAngularVelocity();
+  }
+
+  /**
+   * Sample the gripping wrist and update its angular velocity about the stem axis
+   */
+  private updateAngularVelocity(): void {
+    const grippingHand = this.initiatingHand === "left" ? "right" : "left";
+    const controller = this.context.environment.input.getHand(grippingHand);
+    if (!controller?.isTracked) {
+      return;
+    }
 
-    // Check for timeout
-    if (elapsed > this.config.initiationTimeout) {
-      // Failed to complete initiation in time
-      this.setState(BarspinState.FAILED);
+    const now = this.now();
+    this.wristSamples.push({ time: now, quaternion: controller.wristWQuat.clone() });
 
-      this.emitEvent({
-        type: "failed",
-        currentState: this._state,
-      });
+    // Drop samples that have fallen out of the velocity window (keep at least two)
+    while (this.wristSamples.length > 2 && now - this.wristSamples[1].time > this.config.angularVelocityWindow) {
+      this.wristSamples.shift();
+    }
+
+    if (this.wristSamples.length < 2) {
+      return;
+    }
+
+    const oldest = this.wristSamples[0];
+    const newest = this.wristSamples[this.wristSamples.length - 1];
+    const dt = (newest.time - oldest.time) / 1000;
+    if (dt <= 0) {
+      return;
+    }
+
+    // Rotation between the oldest and newest sample, in world space
+    __deltaQuat.copy(oldest.quaternion).invert().premultiply(newest.quaternion);
+    if (__deltaQuat.w < 0) {
+      // Take the shortest path
+      __deltaQuat.set(-__deltaQuat.x, -__deltaQuat.y, -__deltaQuat.z, -__deltaQuat.w);
+    }
+
+    // Twist component about the stem (handlebar up) axis
+    this.getStemAxis(__stemAxis);
+    const twistDot = __stemAxis.x * __deltaQuat.x + __stemAxis.y * __deltaQuat.y + __stemAxis.z * __deltaQuat.z;
+    const twist = 2 * Math.atan2(twistDot, __deltaQuat.w);
+
+    this.angularVelocity = toRealTimeRate(twist / dt, this.context.environment.clock);
+    if (Math.abs(this.angularVelocity) > Math.abs(this.peakAngularVelocity)) {
+      this.peakAngularVelocity = this.angularVelocity;
+    }
+  }
 
-      // Schedule reset
-      setTimeout(() => {
-        this.resetToReady();
-      }, this.config.failureResetDelay);
+  /**
+   * World-space axis the handlebars spin around (the stem)
+   */
+  private getStemAxis(target: THREE.Vector3): THREE.Vector3 {
+    target.set(0, 1, 0);
+    if (this.context.handlebars) {
+      this.context.handlebars.getWorldQuaternion(__handlebarQuat);
+      target.applyQuaternion(__handlebarQuat);
     }
+    return target;
+  }
+
+  /**
+   * Clear wrist samples before a new initiation
+   */
+  private resetAngularVelocityTracking(): void {
+    this.wristSamples.length = 0;
+    this.angularVelocity = 0;
+    this.peakAngularVelocity = 0;
   }
 
   /**
    * Update SPINNING state
    */
   private updateSpinningState(deltaTime: number): void {
-    // Update spin progress
-    // For MVP, we'll use time-based progress (can add physics later)
-    const spinDuration = 600; // 600ms for full spin (adjustable)
-    const elapsed = performance.now() - this.spinStartTime;
+    this.integrateSpin(deltaTime);
 
-    this.spinProgress = Math.min(elapsed / spinDuration, 1.0);
-    this.currentRotation = this.spinProgress * this.targetRotation;
+    // Bars ran out of speed before coming round
+    if (this.spinVelocity < this.config.minSpinVelocity) {
+      this.fail("stalled");
+      return;
+    }
 
     // Check if we should enter catch window
-    // Catch window starts when bars are about 80% through rotation
-    if (this.spinProgress >= 0.8) {
-      this.catchWindowStartTime = performance.now();
+    // A window opens as the grips come within the catch margin of each half turn
+    const nearestHalfTurn = Math.round(this.currentRotation / HalfTurn);
+    const offset = this.currentRotation - nearestHalfTurn * HalfTurn;
+    if (nearestHalfTurn > this.catchPointIndex && Math.abs(offset) <= this.config.catchWindowAngleMargin) {
+      this.catchPointIndex = nearestHalfTurn;
+      this.catchWindowStartTime = this.now();
       this.setState(BarspinState.CATCH_WINDOW);
+      this.context.haptics.play("both", "catchWindow");
 
       this.emitEvent({
         type: "catchWindowOpen",
         currentState: this._state,
         spinProgress: this.spinProgress,
+        rotation: this.catchPointIndex * 180,
       });
     }
   }
@@ -526,56 +623,97 @@ export class BarspinMechanic {
    * Update CATCH_WINDOW state
    */
   private updateCatchWindowState(deltaTime: number): void {
-    const elapsed = performance.now() - this.catchWindowStartTime;
+    const elapsed = this.now() - this.catchWindowStartTime;
 
-    // Continue updating spin progress
-    const spinDuration = 600;
-    const totalElapsed = performance.now() - this.spinStartTime;
-    this.spinProgress = Math.min(totalElapsed / spinDuration, 1.0);
-    this.currentRotation = this.spinProgress * this.targetRotation;
+    // Bars keep spinning (and slowing) while the rider tries to catch
+    this.integrateSpin(deltaTime);
 
-    // Check if catch window expired
-    if (elapsed > this.config.catchWindowDuration) {
-      this.emitEvent({
-        type: "catchWindowClose",
-        currentState: this._state,
-        spinProgress: this.spinProgress,
-      });
+    // The grips have spun past this catch point, or the rider took too long
+    const passedCatchPoint =
+      this.currentRotation > this.catchPointIndex * HalfTurn + this.config.catchWindowAngleMargin;
+    if (!passedCatchPoint && elapsed <= this.config.catchWindowDuration) {
+      return;
+    }
 
-      // Failed to catch in time
-      this.setState(BarspinState.FAILED);
+    this.emitEvent({
+      type: "catchWindowClose",
+      currentState: this._state,
+      spinProgress: this.spinProgress,
+      rotation: this.catchPointIndex * 180,
+    });
 
-      this.emitEvent({
-        type: "failed",
-        currentState: this._state,
-        spinProgress: this.spinProgress,
-      });
+    if (this.firstCatchHand !== null) {
+      // One hand is on the bars but the other never followed
+      this.fail("missedCatch");
+    } else {
+      // Nobody caught this one - the bars keep going round to the next half turn
+      this.setState(BarspinState.SPINNING);
+    }
+  }
 
-      // Schedule reset
-      setTimeout(() => {
-        this.resetToReady();
-      }, this.config.failureResetDelay);
+  /**
+   * Update FAILED state
+   */
+  private updateFailedState(deltaTime: number): void {
+    // Dropped bars keep turning and wind down instead of snapping back
+    if (this.spinVelocity > 0) {
+      this.integrateSpin(deltaTime, this.config.failureSpinDecay);
+      if (this.spinVelocity < 0.05) {
+        this.spinVelocity = 0;
+      }
     }
   }
 
   /**
-   * Reset state machine to READY
+   * Advance the free spin by one frame, applying decay
+   */
+  private integrateSpin(deltaTime: number, decay: number = this.config.spinDecay): void {
+    this.spinVelocity *= Math.exp(-decay * deltaTime);
+    this.currentRotation += this.spinVelocity * deltaTime;
+    this.spinProgress = this.currentRotation / (HalfTurn * 2);
+  }
+
+  /**
+   * Move to FAILED and emit the failure (the state table schedules the reset)
+   */
+  private fail(reason: BarspinFailureReason): void {
+    this.setState(BarspinState.FAILED);
+    this.context.haptics.play("both", "trickFailed");
+
+    this.emitEvent({
+      type: "failed",
+      currentState: this._state,
+      spinDirection: this.spinDirection || undefined,
+      spinProgress: this.spinProgress,
+      spinVelocity: this.spinVelocity,
+      reason: reason,
+    });
+  }
+
+  /**
+   * Clear spin and catch tracking before returning to READY
    */
-  resetToReady(): void {
-    this._state = BarspinState.READY;
-    this.previousState = BarspinState.READY;
+  protected onReset(fromState: BarspinState): void {
+    // Dropped bars come to rest on whichever half turn they stopped nearest
+    if (fromState === BarspinState.FAILED && this.spinStartTime > 0) {
+      this.barOrientation = this.wrapAngle(Math.round(this.getBarAngle() / HalfTurn) * HalfTurn);
+    }
+
     this.spinDirection = null;
     this.spinStartTime = 0;
     this.spinProgress = 0;
     this.currentRotation = 0;
+    this.spinVelocity = 0;
     this.initiatingHand = null;
     this.initiationStartTime = 0;
+    this.resetAngularVelocityTracking();
     this.catchWindowStartTime = 0;
     this.firstCatchHand = null;
-
-    this.updateDebugVisualization();
-
-    console.log("Barspin mechanic reset to READY");
+    this.firstCatchSide = null;
+    this.firstCatchAngleError = 0;
+    this.catchPointIndex = 0;
+    this.landedRotation = null;
+    this.updateSpinRumble();
   }
 
   /**
@@ -607,44 +745,67 @@ export class BarspinMechanic {
   }
 
   /**
-   * Get debug info string
+   * Check if the bars are moving on their own (spinning, or winding down after a drop)
+   * rather than following the rider's steering
    */
-  getDebugInfo(): string {
-    let info = `Barspin: ${this._state}`;
+  isBarsFree(): boolean {
+    return this.isSpinning() || (this._state === BarspinState.FAILED && this.spinStartTime > 0);
+  }
 
-    if (this._state === BarspinState.SPINNING || this._state === BarspinState.CATCH_WINDOW) {
-      info += ` (${(this.spinProgress * 100).toFixed(0)}%)`;
-    }
+  /**
+   * Absolute handlebar angle around the stem, including the spin direction and any swap.
+   * Not wrapped, so it increases smoothly through multiple rotations.
+   */
+  getBarAngle(): number {
+    return this.barOrientation + this.currentRotation * this.getSpinSign();
+  }
 
-    if (this.spinDirection) {
-      info += ` [${this.spinDirection}]`;
+  /**
+   * Bar angle (like getBarAngle) at the catch point the bars are coming round to, or null when not spinning
+   */
+  getNextCatchAngle(): number | null {
+    if (!this.isSpinning()) {
+      return null;
     }
-
-    return info;
+    return this.barOrientation + this.getNextCatchPoint() * HalfTurn * this.getSpinSign();
   }
 
   /**
-   * Show/hide debug visualization
+   * Spin (radians) left until the bars reach the catch point they're coming round to
+   * (negative once past it, while its window is still open), or null when not spinning
    */
-  setDebugVisible(visible: boolean): void {
-    if (this.debugText) {
-      this.debugText.visible = visible;
+  getAngleToNextCatch(): number | null {
+    if (!this.isSpinning()) {
+      return null;
     }
+    return this.getNextCatchPoint() * HalfTurn - this.currentRotation;
   }
 
   /**
-   * Cleanup resources
+   * Half turns at the catch point the bars are coming round to (the open window's while one is open)
    */
-  dispose(): void {
-    if (this.debugText) {
-      this.context.cameraRig.remove(this.debugText);
-      const material = this.debugText.material as THREE.SpriteMaterial;
-      if (material.map) {
-        material.map.dispose();
-      }
-      material.dispose();
+  private getNextCatchPoint(): number {
+    return this._state === BarspinState.CATCH_WINDOW ? this.catchPointIndex : Math.floor(this.currentRotation / HalfTurn) + 1;
+  }
+
+  /**
+   * Get debug info string
+   */
+  getDebugInfo(): string {
+    let info = `Barspin: ${this._state}`;
+
+    if (this._state === BarspinState.SPINNING || this._state === BarspinState.CATCH_WINDOW) {
+      info += ` (${THREE.MathUtils.radToDeg(this.currentRotation).toFixed(0)}° @ ${this.spinVelocity.toFixed(1)} rad/s)`;
     }
 
-    this.listeners.clear();
+    if (this.landedRotation !== null) {
+      info += ` ${this.landedRotation}`;
+    }
+
+    if (this.spinDirection) {
+      info += ` [${this.spinDirection}]`;
+    }
+
+    return info;
   }
 }
@@ -0,0 +1,119 @@
+import type { BarspinMechanic } from "./BarspinMechanic";
+import type { GripSystem } from "./GripSystem";
+
+export type DifficultyPresetName = "beginner" | "standard" | "pro" | "hardcore";
+
+/**
+ * A preset, or "custom" once any of the preset's values has been tuned by hand
+ */
+export type Difficulty = DifficultyPresetName | "custom";
+
+/**
+ * The barspin timing and grab distances a difficulty sets together
+ */
+export interface DifficultyPreset {
+  displayName: string;
+  catchWindowDuration: number; // Duration of catch window (ms)
+  catchWindowAngleMargin: number; // Angular margin for successful catch (radians)
+  initiationTimeout: number; // Time after first release to initiate (ms)
+  minRotationVelocity: number; // Minimum angular velocity to initiate (rad/s)
+  proximityThreshold: number; // Distance to show "can grip" feedback (m)
+  grabThreshold: number; // Distance the grip button will attach (m)
+}
+
+/**
+ * The values a preset sets, without its name
+ */
+export type DifficultyValues = Omit<DifficultyPreset, "displayName">;
+
+/**
+ * Difficulty presets, easiest first. Standard is the BarspinConfig and GripSystem defaults.
+ */
+export const DifficultyPresets: Record<DifficultyPresetName, DifficultyPreset> = {
+  beginner: {
+    displayName: "Beginner",
+    catchWindowDuration: 600,
+    catchWindowAngleMargin: Math.PI / 4, // ±45 degrees
+    initiationTimeout: 800,
+    minRotationVelocity: 1,
+    proximityThreshold: 0.14,
+    grabThreshold: 0.12,
+  },
+  standard: {
+    displayName: "Standard",
+    catchWindowDuration: 400,
+    catchWindowAngleMargin: Math.PI / 6, // ±30 degrees
+    initiationTimeout: 500,
+    minRotationVelocity: 1.5,
+    proximityThreshold: 0.1,
+    grabThreshold: 0.08,
+  },
+  pro: {
+    displayName: "Pro",
+    catchWindowDuration: 300,
+    catchWindowAngleMargin: Math.PI / 9, // ±20 degrees
+    initiationTimeout: 400,
+    minRotationVelocity: 2,
+    proximityThreshold: 0.08,
+    grabThreshold: 0.06,
+  },
+  hardcore: {
+    displayName: "Hardcore",
+    catchWindowDuration: 200,
+    catchWindowAngleMargin: Math.PI / 12, // ±15 degrees
+    initiationTimeout: 300,
+    minRotationVelocity: 2.5,
+    proximityThreshold: 0.06,
+    grabThreshold: 0.045,
+  },
+};
+
+export const DifficultyPresetNames = Object.keys(DifficultyPresets) as DifficultyPresetName[];
+
+export const DEFAULT_DIFFICULTY: DifficultyPresetName = "standard";
+
+/**
+ * Check if a value (e.g. from a URL or localStorage) names a preset (own keys only, so not "constructor" etc.)
+ */
+export function isDifficultyPresetName(value: unknown): value is DifficultyPresetName {
+  return typeof value === "string" && Object.hasOwn(DifficultyPresets, value);
+}
+
+/**
+ * Check if a field (e.g. a tuning parameter) is one the presets set
+ */
+export function isDifficultyPresetField(field: string): boolean {
+  return field !== "displayName" && Object.hasOwn(DifficultyPresets[DEFAULT_DIFFICULTY], field);
+}
+
+/**
+ * Set a preset's values on the barspin and the grips
+ */
+export function applyDifficultyPreset(name: DifficultyPresetName, barspin: BarspinMechanic, gripSystem: GripSystem): void {
+  applyDifficultyValues(DifficultyPresets[name], barspin, gripSystem);
+}
+
+/**
+ * Set difficulty values (a preset's, or ones read with getDifficultyValues) on the barspin and the grips
+ */
+export function applyDifficultyValues(values: DifficultyValues, barspin: BarspinMechanic, gripSystem: GripSystem): void {
+  barspin.config.catchWindowDuration = values.catchWindowDuration;
+  barspin.config.catchWindowAngleMargin = values.catchWindowAngleMargin;
+  barspin.config.initiationTimeout = values.initiationTimeout;
+  barspin.config.minRotationVelocity = values.minRotationVelocity;
+  gripSystem.setGrabThresholds(values.proximityThreshold, values.grabThreshold);
+}
+
+/**
+ * The difficulty values in use (including any tuned by hand)
+ */
+export function getDifficultyValues(barspin: BarspinMechanic, gripSystem: GripSystem): DifficultyValues {
+  return {
+    catchWindowDuration: barspin.config.catchWindowDuration,
+    catchWindowAngleMargin: barspin.config.catchWindowAngleMargin,
+    initiationTimeout: barspin.config.initiationTimeout,
+    minRotationVelocity: barspin.config.minRotationVelocity,
+    proximityThreshold: gripSystem.proximityThreshold,
+    grabThreshold: gripSystem.grabThreshold,
+  };
+}
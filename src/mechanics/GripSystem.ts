@@ -1,6 +1,6 @@
 import * as THREE from "three";
-import { Context } from "../context";
-import { XrMechanicalControllerInput } from "../utils/xrMechanicalControllerInput";
+import { MechanicsContext, toRealTimeRate } from "./MechanicsContext";
+import { HandInput } from "../utils/handInput";
 
 // Working variables to prevent allocations
 const __tempVec = new THREE.Vector3();
@@ -8,13 +8,15 @@ const __gripWorldPos = new THREE.Vector3();
 const __leftControllerPos = new THREE.Vector3();
 const __rightControllerPos = new THREE.Vector3();
 const __handlebarCenter = new THREE.Vector3();
+const __frameHomeWorldPos = new THREE.Vector3();
 
 /**
  * Grip zone configuration
  */
 export interface GripZone {
+  side: "left" | "right" | "frame"; // Handlebar side, or the frame/seat zone
   marker: THREE.Mesh;
-  position: THREE.Vector3;
+  position: THREE.Vector3; // Frame zone: where the seat sits when the frame is straight (marker parent space)
   proximityThreshold: number; // Distance to trigger "near grip" state
   grabThreshold: number; // Distance to allow actual grab
 }
@@ -29,19 +31,37 @@ export enum GripState {
 }
 
 /**
- * Per-hand grip tracking data
+ * Ordering used when two hands are tracking the same grip marker
+ */
+const GRIP_STATE_PRIORITY: Record<GripState, number> = {
+  [GripState.IDLE]: 0,
+  [GripState.NEAR]: 1,
+  [GripState.GRIPPING]: 2,
+};
+
+/**
+ * Something that can hold part of the bike: either hand on the bars, or the feet on the frame
+ */
+export type GripContact = "left" | "right" | "feet";
+
+/**
+ * Per-hand grip tracking data (also used for the feet on the frame zone)
  */
 export interface HandGripData {
   state: GripState;
   wasNear: boolean; // Was near grip zone last frame
   isNear: boolean; // Is near grip zone this frame
   distance: number; // Current distance to grip zone
-  gripZone: GripZone | null; // Reference to the grip zone
+  gripZone: GripZone | null; // Grip zone this hand is tracking (nearest, or the one it's attached to)
   gripButtonPressed: boolean; // Is grip button currently pressed
   wasGripButtonPressed: boolean; // Was grip button pressed last frame
   isAttached: boolean; // Is controller currently attached to grip
   attachedSide: "left" | "right" | null; // Which side of handlebar this hand is gripping
   attachmentOffset: THREE.Vector3; // Offset from grip point when attached
+  gripStrength: number; // Analog grip strength this frame (0-1)
+  slip: number; // How far the grip has slipped (0 = holding, 1 = comes off)
+  needsRegrip: boolean; // Slipped off - the grip must be relaxed before it can grab again
+  lastSlipWarningTime: number; // When the last slip haptic warning played (ms)
 }
 
 /**
@@ -51,12 +71,19 @@ export type GripEventType =
   | "enterProximity" // Controller entered grip zone proximity
   | "exitProximity" // Controller left grip zone proximity
   | "gripStart" // Started gripping (button pressed while near)
-  | "gripEnd"; // Stopped gripping (button released or left zone)
+  | "gripEnd" // Stopped gripping (button released or left zone)
+  | "frameContactStart" // Feet landed back on the frame (foot-catch while the seat was in the frame zone)
+  | "frameContactEnd" // Feet kicked off the frame
+  | "slipStart" // A light grip started slipping under steering torque or a landing
+  | "slipRecovered" // The grip held again before coming off
+  | "slipRelease"; // The grip slipped off the bar (followed by gripEnd)
 
 export interface GripEvent {
   type: GripEventType;
-  hand: "left" | "right";
+  hand: GripContact; // "feet" for frame contact events
   distance: number;
+  gripStrength?: number; // Slip events: grip strength at the time
+  slip?: number; // Slip events: slip progress at the time (0-1)
 }
 
 type GripEventListener = (event: GripEvent) => void;
@@ -66,26 +93,50 @@ type GripEventListener = (event: GripEvent) => void;
  *
  * Features:
  * - Defines grip zones on left and right handlebars
+ * - Either hand can grip either zone (needed to catch swapped grips after a 180 barspin)
+ * - Frame/seat zone held by the feet: the foot-catch button kicks the frame away,
+ *   and catches it again when the seat is back in the zone
  * - Proximity detection with configurable thresholds
  * - Haptic pulse feedback when entering/exiting grip zones
  * - Visual highlight when grip is available
- * - Grip button mapping (squeeze/grip button)
+ * - Analog grip strength (squeeze button value): a light grip slips off under steering
+ *   torque or a landing impact, with a rising haptic warning; a firm grip holds
  * - Event system for grip state changes
  */
 export class GripSystem {
-  context: Context;
+  context: MechanicsContext;
 
   // Grip zones
   leftGripZone: GripZone | null = null;
   rightGripZone: GripZone | null = null;
 
+  // Frame/seat zone (held by the feet)
+  frameZone: GripZone | null = null;
+
   // Per-hand grip state
   leftHandGrip: HandGripData;
   rightHandGrip: HandGripData;
+  feetGrip: HandGripData;
 
   // Configuration
   proximityThreshold: number = 0.1; // 10cm - when to show "can grip" feedback
   grabThreshold: number = 0.08; // 8cm - when grip button will attach
+  frameProximityThreshold: number = 0.35; // Seat this close to straight shows "can catch" feedback
+  frameGrabThreshold: number = 0.25; // Seat this close to straight can be caught by the feet
+  grabGripStrength: number = 0.5; // Analog grip strength needed to grab
+  releaseGripStrength: number = 0.2; // A held grip lets go below this strength
+  firmGripStrength: number = 0.8; // At or above this strength the grip never slips
+  steeringSlipLoad: number = 0.15; // Slip load per rad/s of steering
+  impactDecay: number = 6; // How fast a landing's slip load fades (1/s)
+  slipRate: number = 4; // Slip progress per second per unit of load the grip can't hold
+  slipRecoveryRate: number = 2; // Slip recovered per second while the grip holds
+  slipWarningInterval: number = 100; // Time between haptic warning pulses while slipping (ms)
+
+  // Slip loads
+  private impactLoad: number = 0; // Load from the last landing, fading out
+  private lastSteeringAngle: number | null = null; // Steering angle last frame (null unless both hands are on)
+  private steeringRate: number = 0; // Steering angular speed (rad/s)
+  private lastUpdateTime: number | null = null;
 
   // Event listeners
   private listeners: Map<GripEventType, GripEventListener[]> = new Map();
@@ -95,13 +146,18 @@ export class GripSystem {
   private normalMaterial: THREE.MeshStandardMaterial;
   private grippingMaterial: THREE.MeshStandardMaterial;
 
-  constructor(context: Context) {
+  constructor(context: MechanicsContext) {
     this.context = context;
 
     // Initialize per-hand grip data
     this.leftHandGrip = this.createHandGripData();
     this.rightHandGrip = this.createHandGripData();
 
+    // Rider starts with their feet on the frame
+    this.feetGrip = this.createHandGripData();
+    this.feetGrip.state = GripState.GRIPPING;
+    this.feetGrip.isAttached = true;
+
     // Create materials for visual feedback
     this.normalMaterial = new THREE.MeshStandardMaterial({
       color: 0x00ff00,
@@ -132,6 +188,11 @@ export class GripSystem {
     this.listeners.set("exitProximity", []);
     this.listeners.set("gripStart", []);
     this.listeners.set("gripEnd", []);
+    this.listeners.set("frameContactStart", []);
+    this.listeners.set("frameContactEnd", []);
+    this.listeners.set("slipStart", []);
+    this.listeners.set("slipRecovered", []);
+    this.listeners.set("slipRelease", []);
   }
 
   /**
@@ -149,6 +210,10 @@ export class GripSystem {
       isAttached: false,
       attachedSide: null,
       attachmentOffset: new THREE.Vector3(),
+      gripStrength: 0,
+      slip: 0,
+      needsRegrip: false,
+      lastSlipWarningTime: 0,
     };
   }
 
@@ -163,6 +228,7 @@ export class GripSystem {
 
     // Create left grip zone
     this.leftGripZone = {
+      side: "left",
       marker: this.context.leftGripMarker,
       position: new THREE.Vector3(),
       proximityThreshold: this.proximityThreshold,
@@ -171,6 +237,7 @@ export class GripSystem {
 
     // Create right grip zone
     this.rightGripZone = {
+      side: "right",
       marker: this.context.rightGripMarker,
       position: new THREE.Vector3(),
       proximityThreshold: this.proximityThreshold,
@@ -181,13 +248,69 @@ export class GripSystem {
     this.leftGripZone.marker.material = this.normalMaterial.clone();
     this.rightGripZone.marker.material = this.normalMaterial.clone();
 
-    // Update grip data references
+    // Each hand starts out tracking the grip on its own side
     this.leftHandGrip.gripZone = this.leftGripZone;
     this.rightHandGrip.gripZone = this.rightGripZone;
 
     console.log("GripSystem: Grip zones initialized");
   }
 
+  /**
+   * Initialize the frame/seat zone once the bike frame and seat marker are ready
+   */
+  initializeFrameZone(): void {
+    const seatMarker = this.context.seatMarker;
+    if (!seatMarker) {
+      console.warn("GripSystem: Seat marker not ready yet");
+      return;
+    }
+
+    // The zone is where the seat sits with the frame straight, relative to the frame pivot
+    // (which follows the handlebar offset, so its position is added when measuring)
+    const home = seatMarker.position.clone();
+    if (seatMarker.parent) {
+      home.applyQuaternion(seatMarker.parent.quaternion);
+    }
+
+    this.frameZone = {
+      side: "frame",
+      marker: seatMarker,
+      position: home,
+      proximityThreshold: this.frameProximityThreshold,
+      grabThreshold: this.frameGrabThreshold,
+    };
+    this.frameZone.marker.material = this.normalMaterial;
+    this.feetGrip.gripZone = this.frameZone;
+
+    console.log("GripSystem: Frame zone initialized");
+  }
+
+  /**
+   * Set how close a hand must be to a handlebar grip to show "can grip" feedback and to grab it
+   */
+  setGrabThresholds(proximityThreshold: number, grabThreshold: number): void {
+    this.proximityThreshold = proximityThreshold;
+    this.grabThreshold = grabThreshold;
+    for (const gripZone of [this.leftGripZone, this.rightGripZone]) {
+      if (gripZone) {
+        gripZone.proximityThreshold = proximityThreshold;
+        gripZone.grabThreshold = grabThreshold;
+      }
+    }
+  }
+
+  /**
+   * Set how close the seat must be to straight to show "can catch" feedback and to be caught by the feet
+   */
+  setFrameGrabThresholds(proximityThreshold: number, grabThreshold: number): void {
+    this.frameProximityThreshold = proximityThreshold;
+    this.frameGrabThreshold = grabThreshold;
+    if (this.frameZone) {
+      this.frameZone.proximityThreshold = proximityThreshold;
+      this.frameZone.grabThreshold = grabThreshold;
+    }
+  }
+
   /**
    * Add event listener
    */
@@ -227,29 +350,39 @@ export class GripSystem {
    * Update grip system each frame
    */
   update(): void {
+    const now = this.context.environment.clock.now();
+    const deltaTime = this.lastUpdateTime === null ? 0 : Math.max(0, now - this.lastUpdateTime) / 1000;
+    this.lastUpdateTime = now;
+    this.updateSlipLoads(deltaTime);
+
     // Get controller references
-    const leftController = this.context.xrInput._leftHandController;
-    const rightController = this.context.xrInput._rightHandController;
+    const leftController = this.context.environment.input.getHand("left");
+    const rightController = this.context.environment.input.getHand("right");
 
-    // Update grip zones if available
-    if (this.leftGripZone && leftController) {
-      this.updateHandGrip(
-        this.leftHandGrip,
-        this.leftGripZone,
-        leftController,
-        "left"
-      );
+    // Feet on the frame zone
+    if (this.frameZone) {
+      this.updateFeetGrip(this.frameZone, leftController, rightController);
     }
 
-    if (this.rightGripZone && rightController) {
-      this.updateHandGrip(
-        this.rightHandGrip,
-        this.rightGripZone,
-        rightController,
-        "right"
-      );
+    // Grip zones aren't available until the handlebars have loaded
+    if (!this.leftGripZone || !this.rightGripZone) {
+      return;
     }
 
+    // Hands that have lost tracking keep their current grip state until they're back
+    if (leftController?.isTracked) {
+      this.updateHandGrip(this.leftHandGrip, leftController, "left", deltaTime);
+    }
+
+    if (rightController?.isTracked) {
+      this.updateHandGrip(this.rightHandGrip, rightController, "right", deltaTime);
+    }
+
+    // Update visual feedback on both grip markers
+    const handGrips = [this.leftHandGrip, this.rightHandGrip];
+    this.updateVisualFeedback(this.leftGripZone, handGrips);
+    this.updateVisualFeedback(this.rightGripZone, handGrips);
+
     // Update attached controller visual positions
     this.updateAttachedControllers();
   }
@@ -259,21 +392,41 @@ export class GripSystem {
    */
   private updateHandGrip(
     handGrip: HandGripData,
-    gripZone: GripZone,
-    controller: XrMechanicalControllerInput,
-    handSide: "left" | "right"
+    controller: HandInput,
+    handSide: "left" | "right",
+    deltaTime: number
   ): void {
     // Store previous frame state
     handGrip.wasNear = handGrip.isNear;
     handGrip.wasGripButtonPressed = handGrip.gripButtonPressed;
 
-    // Get current grip button state (using squeeze/grip button)
-    handGrip.gripButtonPressed = controller.squeeze;
+    // Grip from the analog strength: grab above one threshold, hold until below a lower one
+    handGrip.gripStrength = controller.gripStrength;
+    if (handGrip.needsRegrip && handGrip.gripStrength < this.releaseGripStrength) {
+      handGrip.needsRegrip = false;
+    }
+    const threshold = handGrip.gripButtonPressed ? this.releaseGripStrength : this.grabGripStrength;
+    handGrip.gripButtonPressed = !handGrip.needsRegrip && handGrip.gripStrength >= threshold;
+
+    // A light grip on the bars can slip off under load
+    if (handGrip.isAttached && handGrip.gripButtonPressed) {
+      this.updateSlip(handGrip, handSide, deltaTime);
+    }
+
+    __tempVec.copy(controller.wristWPos);
+
+    // An attached hand stays on its grip, a free hand tracks the nearest free grip
+    if (!handGrip.isAttached) {
+      handGrip.gripZone = this.findNearestFreeZone(__tempVec, handSide) ?? handGrip.gripZone;
+    }
+
+    const gripZone = handGrip.gripZone;
+    if (!gripZone) {
+      return;
+    }
 
     // Calculate distance to grip zone
     gripZone.marker.getWorldPosition(__gripWorldPos);
-    controller.wristWPos; // Trigger refresh
-    __tempVec.copy(controller._worldPosition);
     handGrip.distance = __tempVec.distanceTo(__gripWorldPos);
 
     // Determine if near grip zone
@@ -295,9 +448,234 @@ export class GripSystem {
 
     // Handle state change events
     this.handleStateTransition(handGrip, previousState, controller, handSide);
+  }
+
+  /**
+   * Fade the landing load and measure how fast the bars are being steered
+   */
+  private updateSlipLoads(deltaTime: number): void {
+    this.impactLoad *= Math.exp(-this.impactDecay * deltaTime);
+
+    if (!this.areBothHandsAttached()) {
+      this.lastSteeringAngle = null;
+      this.steeringRate = 0;
+      return;
+    }
+
+    const steeringAngle = this.calculateHandlebarRotation();
+    if (this.lastSteeringAngle !== null && deltaTime > 0) {
+      this.steeringRate = toRealTimeRate(Math.abs(steeringAngle - this.lastSteeringAngle) / deltaTime, this.context.environment.clock);
+    }
+    this.lastSteeringAngle = steeringAngle;
+  }
+
+  /**
+   * How much load a grip of this strength holds without slipping (0 at the release strength, 1 just under firm)
+   */
+  private getHoldCapacity(gripStrength: number): number {
+    if (gripStrength >= this.firmGripStrength) {
+      return Infinity;
+    }
+    return Math.max(0, (gripStrength - this.releaseGripStrength) / (this.firmGripStrength - this.releaseGripStrength));
+  }
+
+  /**
+   * Slip an attached hand when its load is more than its grip can hold, with a haptic warning
+   * that rises as the slip builds. The hand comes off when the slip reaches 1.
+   */
+  private updateSlip(handGrip: HandGripData, handSide: "left" | "right", deltaTime: number): void {
+    const load = this.steeringRate * this.steeringSlipLoad + this.impactLoad;
+    const excess = load - this.getHoldCapacity(handGrip.gripStrength);
+    const wasSlipping = handGrip.slip > 0;
+
+    if (excess > 0) {
+      handGrip.slip = Math.min(1, handGrip.slip + excess * this.slipRate * deltaTime);
+    } else {
+      handGrip.slip = Math.max(0, handGrip.slip - this.slipRecoveryRate * deltaTime);
+    }
+
+    if (!wasSlipping && handGrip.slip > 0) {
+      this.emitSlipEvent("slipStart", handGrip, handSide);
+    } else if (wasSlipping && handGrip.slip === 0) {
+      this.emitSlipEvent("slipRecovered", handGrip, handSide);
+    }
+
+    if (handGrip.slip <= 0) {
+      return;
+    }
+
+    // Rising haptic warning
+    const now = this.context.environment.clock.now();
+    if (now - handGrip.lastSlipWarningTime >= this.slipWarningInterval) {
+      handGrip.lastSlipWarningTime = now;
+      this.context.haptics.play(handSide, "slipWarning", 0.2 + 0.8 * handGrip.slip);
+    }
+
+    if (handGrip.slip >= 1) {
+      // Slipped off: let go now, and only grab again after relaxing the grip
+      this.emitSlipEvent("slipRelease", handGrip, handSide);
+      handGrip.gripButtonPressed = false;
+      handGrip.needsRegrip = true;
+      console.log(`${handSide} hand slipped off the grip`);
+    }
+  }
+
+  private emitSlipEvent(type: GripEventType, handGrip: HandGripData, handSide: "left" | "right"): void {
+    this.emitEvent({
+      type,
+      hand: handSide,
+      distance: handGrip.distance,
+      gripStrength: handGrip.gripStrength,
+      slip: handGrip.slip,
+    });
+  }
+
+  /**
+   * Load the grips with a landing impact (0-1+, 1 slips anything lighter than a firm grip)
+   */
+  applyImpact(load: number): void {
+    this.impactLoad = Math.max(this.impactLoad, load);
+  }
+
+  /**
+   * Update the feet on the frame zone.
+   * The foot-catch button (A/X on either controller by default) kicks the frame away while the
+   * feet are on it, and catches it again while the seat is within the grab threshold.
+   */
+  private updateFeetGrip(
+    frameZone: GripZone,
+    leftController: HandInput | undefined,
+    rightController: HandInput | undefined
+  ): void {
+    const feetGrip = this.feetGrip;
+    feetGrip.wasNear = feetGrip.isNear;
+    feetGrip.wasGripButtonPressed = feetGrip.gripButtonPressed;
+    feetGrip.gripButtonPressed = !!(leftController?.footCatch || rightController?.footCatch);
+
+    // Distance from the seat to where it sits with the frame straight
+    feetGrip.distance = this.getFrameZoneDistance(frameZone);
+    feetGrip.isNear = feetGrip.distance < frameZone.proximityThreshold;
+
+    const footPressed = feetGrip.gripButtonPressed && !feetGrip.wasGripButtonPressed;
+    if (footPressed) {
+      if (feetGrip.isAttached) {
+        this.kickFrame();
+      } else {
+        this.catchFrame();
+      }
+    }
+
+    if (!feetGrip.isAttached) {
+      feetGrip.state = feetGrip.isNear ? GripState.NEAR : GripState.IDLE;
+    }
+
+    this.updateVisualFeedback(frameZone, [feetGrip]);
+  }
+
+  /**
+   * Distance from the seat marker to the frame zone
+   */
+  private getFrameZoneDistance(frameZone: GripZone): number {
+    const pivot = frameZone.marker.parent;
+    const parent = pivot?.parent;
+    if (!pivot || !parent) {
+      return Infinity;
+    }
+    __frameHomeWorldPos.copy(frameZone.position).add(pivot.position);
+    parent.localToWorld(__frameHomeWorldPos);
+    frameZone.marker.getWorldPosition(__gripWorldPos);
+    return __gripWorldPos.distanceTo(__frameHomeWorldPos);
+  }
+
+  /**
+   * Take the feet off the frame (a tailwhip kick)
+   */
+  kickFrame(): void {
+    if (!this.feetGrip.isAttached) {
+      return;
+    }
 
-    // Update visual feedback
-    this.updateVisualFeedback(handGrip, gripZone);
+    this.feetGrip.isAttached = false;
+    this.feetGrip.state = GripState.IDLE;
+
+    this.emitEvent({
+      type: "frameContactEnd",
+      hand: "feet",
+      distance: this.feetGrip.distance,
+    });
+  }
+
+  /**
+   * Put the feet back on the frame if the seat is within the grab threshold.
+   * Used by the foot-catch button and by hand-gesture catches.
+   * Returns true if the frame was caught.
+   */
+  catchFrame(): boolean {
+    if (this.feetGrip.isAttached || !this.frameZone || this.feetGrip.distance >= this.frameZone.grabThreshold) {
+      return false;
+    }
+
+    this.feetGrip.isAttached = true;
+    this.feetGrip.state = GripState.GRIPPING;
+
+    this.emitEvent({
+      type: "frameContactStart",
+      hand: "feet",
+      distance: this.feetGrip.distance,
+    });
+    return true;
+  }
+
+  /**
+   * Put the feet straight back on the frame without a catch (rider recovered after a trick)
+   */
+  resetFrameContact(): void {
+    this.feetGrip.isAttached = true;
+    this.feetGrip.state = GripState.GRIPPING;
+  }
+
+  /**
+   * Drop both hands off the bars and put the feet back on the frame, without events
+   * (used before an input replay so it starts from the same grip state as the recording)
+   */
+  resetGrips(): void {
+    this.leftHandGrip = this.createHandGripData();
+    this.rightHandGrip = this.createHandGripData();
+    this.resetFrameContact();
+    this.impactLoad = 0;
+    this.lastSteeringAngle = null;
+    this.steeringRate = 0;
+  }
+
+  /**
+   * Check if the feet are on the frame
+   */
+  areFeetOnFrame(): boolean {
+    return this.feetGrip.isAttached;
+  }
+
+  /**
+   * Find the grip zone closest to a position that the other hand isn't attached to
+   */
+  private findNearestFreeZone(position: THREE.Vector3, handSide: "left" | "right"): GripZone | null {
+    const otherHandGrip = handSide === "left" ? this.rightHandGrip : this.leftHandGrip;
+    let nearest: GripZone | null = null;
+    let nearestDistance = Infinity;
+
+    for (const zone of [this.leftGripZone, this.rightGripZone]) {
+      if (!zone || (otherHandGrip.isAttached && otherHandGrip.gripZone === zone)) {
+        continue;
+      }
+
+      zone.marker.getWorldPosition(__gripWorldPos);
+      const distance = position.distanceTo(__gripWorldPos);
+      if (distance < nearestDistance) {
+        nearest = zone;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
   }
 
   /**
@@ -306,15 +684,14 @@ export class GripSystem {
   private handleStateTransition(
     handGrip: HandGripData,
     previousState: GripState,
-    controller: XrMechanicalControllerInput,
+    controller: HandInput,
     handSide: "left" | "right"
   ): void {
     const currentState = handGrip.state;
 
     // Entered proximity (IDLE -> NEAR or IDLE -> GRIPPING)
     if (previousState === GripState.IDLE && currentState !== GripState.IDLE) {
-      // Haptic pulse on entering grip zone
-      controller.vibrate(0.3, 50);
+      this.context.haptics.play(handSide, "gripEnter");
 
       this.emitEvent({
         type: "enterProximity",
@@ -325,12 +702,11 @@ export class GripSystem {
 
     // Exited proximity (NEAR or GRIPPING -> IDLE)
     if (previousState !== GripState.IDLE && currentState === GripState.IDLE) {
-      // Light haptic on leaving grip zone
-      controller.vibrate(0.1, 30);
+      this.context.haptics.play(handSide, "gripExit");
 
       // Release attachment if leaving grip zone
       if (handGrip.isAttached) {
-        this.detachController(handGrip, controller, handSide);
+        this.detachController(handGrip, handSide);
       }
 
       this.emitEvent({
@@ -355,7 +731,7 @@ export class GripSystem {
     // Stopped gripping (GRIPPING -> any other state)
     if (previousState === GripState.GRIPPING && currentState !== GripState.GRIPPING) {
       // Detach controller from grip point
-      this.detachController(handGrip, controller, handSide);
+      this.detachController(handGrip, handSide);
 
       this.emitEvent({
         type: "gripEnd",
@@ -370,28 +746,24 @@ export class GripSystem {
    */
   private attachController(
     handGrip: HandGripData,
-    controller: XrMechanicalControllerInput,
+    controller: HandInput,
     handSide: "left" | "right"
   ): void {
-    // Mark as attached
+    // Mark as attached to whichever grip the hand is on (may be the opposite side)
+    const zoneSide = handGrip.gripZone?.side;
     handGrip.isAttached = true;
-    handGrip.attachedSide = handSide;
+    handGrip.attachedSide = zoneSide === "left" || zoneSide === "right" ? zoneSide : handSide;
 
     // Calculate and store offset from grip point (for smooth attachment)
     if (handGrip.gripZone) {
       handGrip.gripZone.marker.getWorldPosition(__gripWorldPos);
-      __tempVec.copy(controller._worldPosition);
+      __tempVec.copy(controller.wristWPos);
       handGrip.attachmentOffset.subVectors(__tempVec, __gripWorldPos);
     }
 
-    // Strong haptic feedback for successful grip attachment
-    // Double pulse for satisfying "click into place" feel
-    controller.vibrate(0.8, 80);
-    setTimeout(() => {
-      controller.vibrate(0.4, 40);
-    }, 100);
+    this.context.haptics.play(handSide, "gripAttach");
 
-    console.log(`${handSide} hand attached to ${handSide} grip`);
+    console.log(`${handSide} hand attached to ${handGrip.attachedSide} grip`);
   }
 
   /**
@@ -399,52 +771,65 @@ export class GripSystem {
    */
   private detachController(
     handGrip: HandGripData,
-    controller: XrMechanicalControllerInput,
     handSide: "left" | "right"
   ): void {
     // Mark as detached
     handGrip.isAttached = false;
     handGrip.attachedSide = null;
     handGrip.attachmentOffset.set(0, 0, 0);
+    handGrip.slip = 0;
 
-    // Medium haptic on release
-    controller.vibrate(0.4, 50);
+    this.context.haptics.play(handSide, "gripRelease");
 
     console.log(`${handSide} hand released from grip`);
   }
 
   /**
-   * Update controller visual position when attached (called each frame)
+   * Snap attached hands' visuals to their grip points, and let free hands follow tracking (called each frame)
    */
   updateAttachedControllers(): void {
-    // Update left hand if attached
-    if (this.leftHandGrip.isAttached && this.leftGripZone) {
-      const controller = this.context.xrInput._leftHandController;
-      if (controller && controller._debugSphere) {
-        // Snap debug sphere to grip point
-        this.leftGripZone.marker.getWorldPosition(__gripWorldPos);
-        controller._debugSphere.position.copy(__gripWorldPos);
-      }
+    this.updateDisplayAnchor(this.leftHandGrip, this.context.environment.input.getHand("left"));
+    this.updateDisplayAnchor(this.rightHandGrip, this.context.environment.input.getHand("right"));
+  }
+
+  private updateDisplayAnchor(handGrip: HandGripData, controller: HandInput | undefined): void {
+    if (!controller) {
+      return;
     }
 
-    // Update right hand if attached
-    if (this.rightHandGrip.isAttached && this.rightGripZone) {
-      const controller = this.context.xrInput._rightHandController;
-      if (controller && controller._debugSphere) {
-        // Snap debug sphere to grip point
-        this.rightGripZone.marker.getWorldPosition(__gripWorldPos);
-        controller._debugSphere.position.copy(__gripWorldPos);
-      }
+    if (handGrip.isAttached && handGrip.gripZone) {
+      handGrip.gripZone.marker.getWorldPosition(__gripWorldPos);
+      controller.setDisplayAnchor(__gripWorldPos);
+    } else {
+      controller.setDisplayAnchor(null);
     }
   }
 
   /**
-   * Update visual feedback on grip markers
+   * Update visual feedback on a grip marker from the hand(s) tracking it
    */
-  private updateVisualFeedback(handGrip: HandGripData, gripZone: GripZone): void {
+  private updateVisualFeedback(gripZone: GripZone, grips: HandGripData[]): void {
     const marker = gripZone.marker;
 
-    switch (handGrip.state) {
+    // Show the most engaged hand on this grip (gripping beats near beats idle)
+    let handGrip: HandGripData | null = null;
+    for (const candidate of grips) {
+      if (candidate.gripZone !== gripZone) {
+        continue;
+      }
+      if (
+        !handGrip ||
+        GRIP_STATE_PRIORITY[candidate.state] > GRIP_STATE_PRIORITY[handGrip.state] ||
+        (candidate.state === handGrip.state && candidate.distance < handGrip.distance)
+      ) {
+        handGrip = candidate;
+      }
+    }
+
+    const state = handGrip?.state ?? GripState.IDLE;
+    const distance = handGrip?.distance ?? Infinity;
+
+    switch (state) {
       case GripState.IDLE:
         // Dim green when not in range
         marker.material = this.normalMaterial;
@@ -455,7 +840,7 @@ export class GripSystem {
         // Bright green glow when in range
         marker.material = this.highlightMaterial;
         // Pulse scale based on distance (closer = larger)
-        const proximityFactor = 1 - (handGrip.distance / gripZone.proximityThreshold);
+        const proximityFactor = 1 - (distance / gripZone.proximityThreshold);
         marker.scale.setScalar(1.0 + proximityFactor * 0.3);
         break;
 
@@ -467,6 +852,13 @@ export class GripSystem {
     }
   }
 
+  /**
+   * Materials the grip markers switch between, for other visuals that should match them
+   */
+  getMarkerMaterials(): { normal: THREE.MeshStandardMaterial; highlight: THREE.MeshStandardMaterial; gripping: THREE.MeshStandardMaterial } {
+    return { normal: this.normalMaterial, highlight: this.highlightMaterial, gripping: this.grippingMaterial };
+  }
+
   /**
    * Check if a specific hand is gripping
    */
@@ -522,7 +914,8 @@ export class GripSystem {
   }
 
   /**
-   * Get which side a hand is attached to
+   * Get which side of the handlebar a hand is attached to.
+   * This is the opposite side when the bars were caught swapped (180, 540).
    */
   getAttachedSide(hand: "left" | "right"): "left" | "right" | null {
     const handGrip = hand === "left" ? this.leftHandGrip : this.rightHandGrip;
@@ -537,12 +930,24 @@ export class GripSystem {
     const rightState = this.rightHandGrip.state;
     const leftDist = this.leftHandGrip.distance.toFixed(3);
     const rightDist = this.rightHandGrip.distance.toFixed(3);
-    const leftAttached = this.leftHandGrip.isAttached ? "ATT" : "";
-    const rightAttached = this.rightHandGrip.isAttached ? "ATT" : "";
+    const leftAttached = this.leftHandGrip.isAttached ? "ATT" + this.getSlipLabel(this.leftHandGrip) : "";
+    const rightAttached = this.rightHandGrip.isAttached ? "ATT" + this.getSlipLabel(this.rightHandGrip) : "";
 
     return `L: ${leftState}${leftAttached} (${leftDist}m) | R: ${rightState}${rightAttached} (${rightDist}m)`;
   }
 
+  private getSlipLabel(handGrip: HandGripData): string {
+    return handGrip.slip > 0 ? ` slip ${Math.round(handGrip.slip * 100)}%` : "";
+  }
+
+  /**
+   * Get how far a hand's grip has slipped (0 = holding, 1 = comes off)
+   */
+  getHandSlip(hand: "left" | "right"): number {
+    const handGrip = hand === "left" ? this.leftHandGrip : this.rightHandGrip;
+    return handGrip.slip;
+  }
+
   /**
    * Calculate handlebar rotation based on controller positions
    * Returns the rotation angle in radians around the Y-axis (steering)
@@ -556,19 +961,16 @@ export class GripSystem {
       return 0;
     }
 
-    const leftController = this.context.xrInput._leftHandController;
-    const rightController = this.context.xrInput._rightHandController;
+    const leftController = this.context.environment.input.getHand("left");
+    const rightController = this.context.environment.input.getHand("right");
 
     if (!leftController || !rightController) {
       return 0;
     }
 
     // Get controller world positions
-    leftController.wristWPos; // Trigger refresh
-    rightController.wristWPos; // Trigger refresh
-
-    __leftControllerPos.copy(leftController._worldPosition);
-    __rightControllerPos.copy(rightController._worldPosition);
+    __leftControllerPos.copy(leftController.wristWPos);
+    __rightControllerPos.copy(rightController.wristWPos);
 
     // Calculate the angle between left and right controllers on the XZ plane
     // This represents the handlebar steering angle
@@ -593,19 +995,16 @@ export class GripSystem {
       return null;
     }
 
-    const leftController = this.context.xrInput._leftHandController;
-    const rightController = this.context.xrInput._rightHandController;
+    const leftController = this.context.environment.input.getHand("left");
+    const rightController = this.context.environment.input.getHand("right");
 
     if (!leftController || !rightController) {
       return null;
     }
 
     // Get controller world positions
-    leftController.wristWPos; // Trigger refresh
-    rightController.wristWPos; // Trigger refresh
-
-    __leftControllerPos.copy(leftController._worldPosition);
-    __rightControllerPos.copy(rightController._worldPosition);
+    __leftControllerPos.copy(leftController.wristWPos);
+    __rightControllerPos.copy(rightController.wristWPos);
 
     // Calculate midpoint
     __handlebarCenter.addVectors(__leftControllerPos, __rightControllerPos).multiplyScalar(0.5);
@@ -622,19 +1021,16 @@ export class GripSystem {
       return 0;
     }
 
-    const leftController = this.context.xrInput._leftHandController;
-    const rightController = this.context.xrInput._rightHandController;
+    const leftController = this.context.environment.input.getHand("left");
+    const rightController = this.context.environment.input.getHand("right");
 
     if (!leftController || !rightController) {
       return 0;
     }
 
     // Get controller world positions
-    leftController.wristWPos; // Trigger refresh
-    rightController.wristWPos; // Trigger refresh
-
-    __leftControllerPos.copy(leftController._worldPosition);
-    __rightControllerPos.copy(rightController._worldPosition);
+    __leftControllerPos.copy(leftController.wristWPos);
+    __rightControllerPos.copy(rightController.wristWPos);
 
     return __leftControllerPos.distanceTo(__rightControllerPos);
   }
@@ -0,0 +1,120 @@
+import * as THREE from "three";
+import type { GripSystem } from "./GripSystem";
+import type { Handedness, HandInput } from "../utils/handInput";
+import type { HapticFeedback } from "../feedback/HapticFeedback";
+
+// Slowest simulation speed (practice mode)
+export const MIN_TIME_SCALE = 0.25;
+
+/**
+ * Source of time for the mechanics (milliseconds)
+ */
+export interface MechanicsClock {
+  now(): number;
+  readonly timeScale: number; // Simulation speed (1 = real time, below 1 = slow motion)
+}
+
+/**
+ * Runs a callback after a delay on the mechanics clock
+ */
+export interface MechanicsScheduler {
+  schedule(callback: () => void, delay: number): void;
+}
+
+/**
+ * Provides the current hands (undefined while disconnected)
+ */
+export interface MechanicsInputProvider {
+  getHand(hand: Handedness): HandInput | undefined;
+}
+
+/**
+ * Everything time- and input-related the mechanics depend on
+ */
+export interface MechanicsEnvironment {
+  clock: MechanicsClock;
+  scheduler: MechanicsScheduler;
+  input: MechanicsInputProvider;
+}
+
+/**
+ * What GripSystem, TrickRegistry and the tricks need from their host.
+ * Context provides this in the browser; HeadlessSimulation provides it without WebGL or a DOM.
+ */
+export interface MechanicsContext {
+  environment: MechanicsEnvironment;
+  haptics: HapticFeedback; // Haptic patterns and rumble on the hands (set before gripSystem)
+  gripSystem: GripSystem; // Tricks read grips from here (set before tricks are created)
+  handlebars?: THREE.Object3D;
+  leftGripMarker?: THREE.Mesh;
+  rightGripMarker?: THREE.Mesh;
+  seatMarker?: THREE.Mesh;
+  cameraRig?: THREE.Object3D; // Debug sprites are only created when there's a rig to show them on
+}
+
+/**
+ * Clock that only moves when advanced by the frame delta time, slowed by the time scale.
+ * Live and replayed frames with the same delta times (and time scale) see exactly the same times.
+ */
+export class FrameClock implements MechanicsClock {
+  time: number = 0;
+  timeScale: number = 1;
+
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Set the simulation speed (clamped to MIN_TIME_SCALE - 1)
+   */
+  setTimeScale(timeScale: number): void {
+    this.timeScale = THREE.MathUtils.clamp(timeScale, MIN_TIME_SCALE, 1);
+  }
+
+  /**
+   * Move time forward by a frame's real delta time (seconds), and return the simulated delta time
+   */
+  advance(deltaTime: number): number {
+    const scaled = deltaTime * this.timeScale;
+    this.time += scaled * 1000;
+    return scaled;
+  }
+}
+
+/**
+ * Turn a rate of the rider's motion measured on the mechanics clock into a real-time rate.
+ * Hands move in real time, so in slow motion they'd otherwise measure faster than they are
+ * (and a slow-motion throw would spin the bars harder than the same throw at full speed).
+ */
+export function toRealTimeRate(rate: number, clock: MechanicsClock): number {
+  return rate * clock.timeScale;
+}
+
+/**
+ * Scheduler that queues callbacks until run() is called with the clock past their time.
+ * Keeps delayed work deterministic, and on the (possibly slowed) mechanics clock.
+ */
+export class ManualScheduler implements MechanicsScheduler {
+  clock: MechanicsClock;
+  private pending: { time: number; callback: () => void }[] = [];
+
+  constructor(clock: MechanicsClock) {
+    this.clock = clock;
+  }
+
+  schedule(callback: () => void, delay: number): void {
+    this.pending.push({ time: this.clock.now() + delay, callback });
+  }
+
+  /**
+   * Run every callback that's due, in the order they were scheduled
+   */
+  run(): void {
+    const now = this.clock.now();
+    const due = this.pending.filter((entry) => entry.time <= now);
+    this.pending = this.pending.filter((entry) => entry.time > now);
+    for (const entry of due) {
+      entry.callback();
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import { Difficulty } from "./DifficultyPresets";
+import { MechanicsEnvironment } from "./MechanicsContext";
+import { RegisteredTrick, TrickEvent } from "./TrickMechanic";
+import type { TrickRegistry } from "./TrickRegistry";
+
+/**
+ * What ScoreSystem needs from its host.
+ * Context provides this in the browser; HeadlessSimulation provides it without WebGL or a DOM.
+ */
+export interface ScoreContext {
+  environment: MechanicsEnvironment; // Combo timing runs on its clock; below 1x time scale is practice
+  trickRegistry: TrickRegistry; // Every trick registered here is scored
+  getDifficulty(): Difficulty; // Recorded with each landed trick
+}
+
+/**
+ * Fields the score system reads from a trick's success/failed events
+ */
+interface ScorableTrickEvent extends TrickEvent<string> {
+  spinDirection?: "clockwise" | "counterclockwise";
+  rotation?: number; // Landed rotation in degrees
+  catchAccuracy?: number; // 0-1, 1 = perfect catch
+}
+
+/**
+ * A single landed trick and the points it earned
+ */
+export interface ScoredTrick {
+  trickName: string; // Registered trick name ("Barspin", "Tailwhip")
+  displayName: string; // Name shown to the rider ("360 Barspin")
+  rotation: number; // Degrees
+  spinDirection: "clockwise" | "counterclockwise" | null;
+  catchAccuracy: number; // 0-1
+  basePoints: number; // Points before the combo multiplier
+  comboMultiplier: number; // Combo multiplier applied
+  points: number; // Points added to the score
+  bonuses: string[]; // Bonus labels ("Perfect", "Opposite")
+  time: number; // Mechanics clock time when landed (ms)
+  practice: boolean; // Landed in slow motion (time scale below 1x)
+  difficulty: Difficulty; // Difficulty preset active when landed ("custom" if its values were tuned)
+}
+
+/**
+ * Summary of the current session
+ */
+export interface SessionSummary {
+  duration: number; // Session length (ms)
+  totalScore: number;
+  tricksLanded: number;
+  tricksFailed: number;
+  bestCombo: number; // Most tricks chained in one combo
+  bestComboScore: number; // Most points earned in one combo
+  bestTrick: ScoredTrick | null; // Highest scoring single trick
+  averageAccuracy: number; // Mean catch accuracy of landed tricks (0-1)
+  trickCounts: Record<string, number>; // Landings per display name
+  practice: boolean; // Some tricks were landed in slow motion - not a full-speed score (e.g. for leaderboards)
+}
+
+/**
+ * Events emitted by the ScoreSystem
+ */
+export type ScoreEventType =
+  | "trickScored" // A landed trick added points
+  | "comboEnd" // Combo timer ran out, combo banked
+  | "comboBroken"; // A failed trick broke the combo
+
+export interface ScoreEvent {
+  type: ScoreEventType;
+  score: number; // Total score after this event
+  combo: number; // Tricks in the combo after this event
+  comboScore: number; // Points earned in the combo (before a comboEnd/comboBroken, the finished combo)
+  trick?: ScoredTrick;
+}
+
+type ScoreEventListener = (event: ScoreEvent) => void;
+
+/**
+ * Configuration for scoring and combos
+ */
+export interface ScoreConfig {
+  trickBasePoints: Record<string, number>; // Points per full rotation of each trick
+  defaultBasePoints: number; // Points per full rotation for tricks not listed
+  accuracyBonus: number; // Extra fraction of points for a perfect catch (0.5 = +50%)
+  perfectAccuracy: number; // Catch accuracy that counts as "Perfect"
+  oppositeDirectionBonus: number; // Multiplier for landing a trick in the rider's less-used direction
+  repeatPenalty: number; // Multiplier applied per repeat of the same trick in recent history
+  varietyHistorySize: number; // How many recent tricks count towards repeats
+  comboTimeout: number; // Time after a landing to chain the next trick (ms)
+  comboMultiplierStep: number; // Multiplier added per chained trick
+  maxComboMultiplier: number; // Upper bound on the combo multiplier
+}
+
+/**
+ * ScoreSystem turns landed tricks into points.
+ *
+ * Scoring:
+ * - Base points scale with the landed rotation (a 360 earns the trick's base points, a 180 half)
+ * - Accurate catches earn up to accuracyBonus extra
+ * - Landing a trick in the direction the rider has used less earns oppositeDirectionBonus
+ * - Repeating the same trick within the recent history loses repeatPenalty per repeat
+ *
+ * Combos:
+ * - A trick landed within comboTimeout of the last one chains onto the combo
+ * - Each chained trick raises the multiplier by comboMultiplierStep
+ * - The combo is banked when the timer runs out, and broken by a failed trick
+ */
+export class ScoreSystem {
+  context: ScoreContext;
+
+  // Score tracking
+  score: number = 0;
+  combo: number = 0; // Tricks in the current combo
+  comboScore: number = 0; // Points earned in the current combo
+  lastTrickTime: number = 0;
+  lastTrick: ScoredTrick | null = null;
+
+  // Session tracking
+  sessionStartTime: number;
+  history: ScoredTrick[] = [];
+  tricksFailed: number = 0;
+  bestCombo: number = 0;
+  bestComboScore: number = 0;
+  private directionCounts: Map<string, { clockwise: number; counterclockwise: number }> = new Map();
+
+  // Configuration
+  config: ScoreConfig = {
+    trickBasePoints: {
+      Barspin: 100,
+      Tailwhip: 150,
+    },
+    defaultBasePoints: 100,
+    accuracyBonus: 0.5, // Up to +50% for a clean catch
+    perfectAccuracy: 0.9, // Within 10% of the margin counts as perfect
+    oppositeDirectionBonus: 1.25, // +25% for the rider's weaker direction
+    repeatPenalty: 0.75, // Each recent repeat is worth 25% less
+    varietyHistorySize: 5, // Repeats counted over the last 5 tricks
+    comboTimeout: 3000, // 3s to land the next trick
+    comboMultiplierStep: 0.5, // x1, x1.5, x2, ...
+    maxComboMultiplier: 4,
+  };
+
+  // Event listeners
+  private listeners: Map<ScoreEventType, ScoreEventListener[]> = new Map();
+
+  constructor(context: ScoreContext) {
+    this.context = context;
+    this.sessionStartTime = context.environment.clock.now();
+
+    this.listeners.set("trickScored", []);
+    this.listeners.set("comboEnd", []);
+    this.listeners.set("comboBroken", []);
+
+    // Listen to every registered trick
+    for (const trick of context.trickRegistry.tricks) {
+      this.watchTrick(trick);
+    }
+  }
+
+  /**
+   * Score a trick's success and failed events
+   */
+  watchTrick(trick: RegisteredTrick): void {
+    trick.addEventListener("success", (event: ScorableTrickEvent) => this.onTrickLanded(trick.name, event));
+    trick.addEventListener("failed", () => this.onTrickFailed());
+  }
+
+  /**
+   * Add event listener
+   */
+  addEventListener(type: ScoreEventType, listener: ScoreEventListener): void {
+    const listeners = this.listeners.get(type);
+    if (listeners) {
+      listeners.push(listener);
+    }
+  }
+
+  /**
+   * Remove event listener
+   */
+  removeEventListener(type: ScoreEventType, listener: ScoreEventListener): void {
+    const listeners = this.listeners.get(type);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emitEvent(event: ScoreEvent): void {
+    const listeners = this.listeners.get(event.type);
+    if (listeners) {
+      for (const listener of listeners) {
+        listener(event);
+      }
+    }
+  }
+
+  /**
+   * Update method called each frame - banks the combo when its timer runs out
+   */
+  update(): void {
+    if (this.combo > 0 && this.context.environment.clock.now() - this.lastTrickTime > this.config.comboTimeout) {
+      this.endCombo("comboEnd");
+    }
+  }
+
+  /**
+   * Score a landed trick and chain it onto the combo
+   */
+  private onTrickLanded(trickName: string, event: ScorableTrickEvent): void {
+    const now = this.context.environment.clock.now();
+    const rotation = event.rotation ?? 360;
+    const spinDirection = event.spinDirection ?? null;
+    const catchAccuracy = event.catchAccuracy ?? 0;
+    const displayName = `${rotation} ${trickName}`;
+    const bonuses: string[] = [];
+
+    // Rotation
+    const perRotation = this.config.trickBasePoints[trickName] ?? this.config.defaultBasePoints;
+    let basePoints = perRotation * (rotation / 360);
+
+    // Catch accuracy
+    basePoints *= 1 + this.config.accuracyBonus * catchAccuracy;
+    if (catchAccuracy >= this.config.perfectAccuracy) {
+      bonuses.push("Perfect");
+    }
+
+    // Spin direction - reward the direction the rider has landed less
+    if (spinDirection) {
+      const counts = this.getDirectionCounts(trickName);
+      const opposite = spinDirection === "clockwise" ? "counterclockwise" : "clockwise";
+      if (counts[spinDirection] < counts[opposite]) {
+        basePoints *= this.config.oppositeDirectionBonus;
+        bonuses.push("Opposite");
+      }
+      counts[spinDirection]++;
+    }
+
+    // Variety - repeats of the same trick are worth less
+    const recent = this.history.slice(-this.config.varietyHistorySize);
+    const repeats = recent.filter((trick) => trick.displayName === displayName).length;
+    basePoints *= Math.pow(this.config.repeatPenalty, repeats);
+
+    // Combo - chain if landed before the timer ran out
+    if (this.combo > 0 && now - this.lastTrickTime > this.config.comboTimeout) {
+      this.endCombo("comboEnd");
+    }
+    this.combo++;
+    const comboMultiplier = this.getComboMultiplier();
+
+    const points = Math.round(basePoints * comboMultiplier);
+    const scored: ScoredTrick = {
+      trickName,
+      displayName,
+      rotation,
+      spinDirection,
+      catchAccuracy,
+      basePoints: Math.round(basePoints),
+      comboMultiplier,
+      points,
+      bonuses,
+      time: now,
+      practice: this.context.environment.clock.timeScale < 1,
+      difficulty: this.context.getDifficulty(),
+    };
+
+    this.score += points;
+    this.comboScore += points;
+    this.lastTrickTime = now;
+    this.lastTrick = scored;
+    this.history.push(scored);
+
+    console.log(`ScoreSystem: ${displayName} +${points} (x${comboMultiplier}) ${bonuses.join(" ")} [${scored.difficulty}]${scored.practice ? " [practice]" : ""}`);
+
+    this.emitEvent({
+      type: "trickScored",
+      score: this.score,
+      combo: this.combo,
+      comboScore: this.comboScore,
+      trick: scored,
+    });
+  }
+
+  /**
+   * A failed trick breaks the combo
+   */
+  private onTrickFailed(): void {
+    this.tricksFailed++;
+    if (this.combo > 0) {
+      this.endCombo("comboBroken");
+    }
+  }
+
+  /**
+   * Finish the current combo and record it
+   */
+  private endCombo(type: "comboEnd" | "comboBroken"): void {
+    const combo = this.combo;
+    const comboScore = this.comboScore;
+
+    this.bestCombo = Math.max(this.bestCombo, combo);
+    this.bestComboScore = Math.max(this.bestComboScore, comboScore);
+    this.combo = 0;
+    this.comboScore = 0;
+
+    console.log(`ScoreSystem: Combo ${type === "comboEnd" ? "ended" : "broken"} - ${combo} tricks, ${comboScore} points`);
+
+    this.emitEvent({
+      type,
+      score: this.score,
+      combo,
+      comboScore,
+    });
+  }
+
+  /**
+   * Landings per spin direction for a trick
+   */
+  private getDirectionCounts(trickName: string): { clockwise: number; counterclockwise: number } {
+    let counts = this.directionCounts.get(trickName);
+    if (!counts) {
+      counts = { clockwise: 0, counterclockwise: 0 };
+      this.directionCounts.set(trickName, counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Current combo multiplier (1 when no combo is running)
+   */
+  getComboMultiplier(): number {
+    if (this.combo === 0) {
+      return 1;
+    }
+    return Math.min(1 + (this.combo - 1) * this.config.comboMultiplierStep, this.config.maxComboMultiplier);
+  }
+
+  /**
+   * Time left to chain the next trick (0-1), or 0 when no combo is running
+   */
+  getComboTimeRemaining(): number {
+    if (this.combo === 0) {
+      return 0;
+    }
+    const elapsed = this.context.environment.clock.now() - this.lastTrickTime;
+    return Math.max(0, 1 - elapsed / this.config.comboTimeout);
+  }
+
+  /**
+   * Get a summary of the session so far
+   */
+  getSessionSummary(): SessionSummary {
+    const trickCounts: Record<string, number> = {};
+    let bestTrick: ScoredTrick | null = null;
+    let accuracyTotal = 0;
+
+    for (const trick of this.history) {
+      trickCounts[trick.displayName] = (trickCounts[trick.displayName] ?? 0) + 1;
+      accuracyTotal += trick.catchAccuracy;
+      if (!bestTrick || trick.points > bestTrick.points) {
+        bestTrick = trick;
+      }
+    }
+
+    return {
+      duration: this.context.environment.clock.now() - this.sessionStartTime,
+      totalScore: this.score,
+      tricksLanded: this.history.length,
+      tricksFailed: this.tricksFailed,
+      bestCombo: Math.max(this.bestCombo, this.combo),
+      bestComboScore: Math.max(this.bestComboScore, this.comboScore),
+      bestTrick,
+      averageAccuracy: this.history.length > 0 ? accuracyTotal / this.history.length : 0,
+      trickCounts,
+      practice: this.history.some((trick) => trick.practice),
+    };
+  }
+
+  /**
+   * Start a new session, clearing the score and history
+   */
+  resetSession(): void {
+    this.score = 0;
+    this.combo = 0;
+    this.comboScore = 0;
+    this.lastTrickTime = 0;
+    this.lastTrick = null;
+    this.sessionStartTime = this.context.environment.clock.now();
+    this.history = [];
+    this.tricksFailed = 0;
+    this.bestCombo = 0;
+    this.bestComboScore = 0;
+    this.directionCounts.clear();
+
+    console.log("ScoreSystem: Session reset");
+  }
+}
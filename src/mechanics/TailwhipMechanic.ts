@@ -0,0 +1,567 @@
+import * as THREE from "three";
+import { GripSystem } from "./GripSystem";
+import { MechanicsContext, toRealTimeRate } from "./MechanicsContext";
+import { TrickEvent, TrickMechanic, TrickStateTable } from "./TrickMechanic";
+
+// Working variables to prevent allocations
+const __handMidpoint = new THREE.Vector3();
+
+// The frame can be caught after every full turn (360, 720, ...)
+const FullTurn = Math.PI * 2;
+
+/**
+ * Tailwhip trick states
+ */
+export enum TailwhipState {
+  READY = "READY",               // Hands on the bars, feet on the frame
+  WHIPPING = "WHIPPING",         // Frame kicked away, spinning around the head tube
+  CATCH_WINDOW = "CATCH_WINDOW", // Frame coming back round, feet can catch it
+  CAUGHT = "CAUGHT",             // Frame landed under the feet
+  FAILED = "FAILED",             // Missed the frame or let go of the bars
+}
+
+/**
+ * Events emitted by the TailwhipMechanic
+ */
+export type TailwhipEventType =
+  | "stateChange"      // State has changed
+  | "kicked"           // Feet kicked the frame away
+  | "catchWindowOpen"  // Frame is coming round, catch is available
+  | "catchWindowClose" // Catch window closed
+  | "catchMissed"      // Feet landed with the frame outside the catch margin
+  | "success"          // Frame caught
+  | "failed";          // Tailwhip failed
+
+/**
+ * How the frame was caught
+ */
+export type TailwhipCatchMethod = "button" | "gesture";
+
+export interface TailwhipEvent extends TrickEvent<TailwhipState> {
+  type: TailwhipEventType;
+  previousState?: TailwhipState;
+  currentState: TailwhipState;
+  spinDirection?: "clockwise" | "counterclockwise";
+  spinProgress?: number; // Rotations completed (1 = 360, continues past one turn)
+  rotation?: number; // Catch point in degrees (360, 720, ...)
+  spinVelocity?: number; // Current frame spin rate (rad/s)
+  catchMethod?: TailwhipCatchMethod;
+  angleError?: number; // Signed angle between the frame and straight at the catch (radians, negative = early)
+  timingError?: number; // Signed time from the ideal catch moment (ms, negative = early)
+  catchAccuracy?: number; // 0-1 on success, 1 = frame dead straight at the catch
+  reason?: TailwhipFailureReason;
+}
+
+/**
+ * Why a tailwhip attempt failed
+ */
+export type TailwhipFailureReason =
+  | "handsReleased" // A hand came off the bars mid-whip
+  | "stalled"       // Frame slowed down before coming round
+  | "earlyCatch"    // Feet went back down before the frame came round
+  | "missedCatch";  // Catch window closed (or feet landed too crooked) without a clean catch
+
+/**
+ * Configuration for tailwhip mechanic
+ */
+export interface TailwhipConfig {
+  // Kick
+  kickBaseVelocity: number;        // Frame spin rate from the kick alone (rad/s)
+  steeringVelocityMultiplier: number; // Bar yank rate at the kick -> extra frame spin rate
+  steeringVelocitySmoothing: number;  // Smoothing rate of the tracked bar yank (1/s)
+  maxSpinVelocity: number;         // Upper bound on frame spin rate (rad/s)
+
+  // Spin physics
+  spinDecay: number;               // Exponential spin decay rate (1/s)
+  minSpinVelocity: number;         // Spin rate below which the frame has stalled (rad/s)
+  failureSpinDecay: number;        // Faster spin decay once the frame has been missed (1/s)
+
+  // Catch window
+  catchWindowDuration: number;     // Duration of catch window (ms)
+  catchWindowAngleMargin: number;  // Angular margin for a clean catch (radians)
+  stompVelocity: number;           // Downward hand speed that counts as a stomp catch (m/s)
+  landingImpact: number;           // Grip load from landing on the frame (see GripSystem.applyImpact)
+
+  // Reset timing
+  failureResetDelay: number;       // Delay before reset after failure (ms)
+  successResetDelay: number;       // Delay before reset after success (ms)
+}
+
+/**
+ * TailwhipMechanic manages the tailwhip trick state machine.
+ *
+ * Flow:
+ * 1. READY - Both hands on the bars, feet on the frame
+ * 2. WHIPPING - Foot-catch button kicks the frame away; it spins around the head tube
+ *    (a sharp yank of the bars at the kick adds spin and sets the direction)
+ * 3. CATCH_WINDOW - Opens as the frame comes round each full turn; catch it with the
+ *    foot-catch button or by stomping both hands down on the bars
+ * 4. CAUGHT/FAILED - Result of the attempt
+ *
+ * Both hands have to stay on the bars for the whole trick.
+ */
+export class TailwhipMechanic extends TrickMechanic<TailwhipState, TailwhipEvent> {
+  readonly name = "Tailwhip";
+  gripSystem: GripSystem;
+
+  // Spin tracking
+  spinDirection: "clockwise" | "counterclockwise" | null = null;
+  spinStartTime: number = 0;
+  spinProgress: number = 0; // Rotations completed (1 = 360, continues past one turn)
+  currentRotation: number = 0; // Current frame rotation in radians
+  spinVelocity: number = 0; // Current frame spin rate in rad/s (always positive)
+
+  // Bar yank tracking (READY)
+  steeringVelocity: number = 0; // Smoothed signed rate of the steering angle (rad/s)
+  private lastSteering: number | null = null;
+
+  // Stomp tracking (CATCH_WINDOW)
+  private lastHandHeight: number | null = null;
+  private pendingCatchMethod: TailwhipCatchMethod = "button";
+
+  // Catch tracking
+  catchWindowStartTime: number = 0;
+  catchPointIndex: number = 0; // Full turns at the current/last catch window (1 = 360, 2 = 720, ...)
+  landedRotation: number | null = null; // Degrees of the landed whip once caught
+  catchMethod: TailwhipCatchMethod | null = null;
+
+  // Configuration
+  config: TailwhipConfig = {
+    kickBaseVelocity: 7,              // A plain kick gets the frame round in about a second
+    steeringVelocityMultiplier: 1.5,  // Yanking the bars whips the frame harder
+    steeringVelocitySmoothing: 12,    // Follows the bars within ~100ms
+    maxSpinVelocity: 20,              // ~3 rotations per second
+    spinDecay: 0.6,                   // Air drag slows the frame over time
+    minSpinVelocity: 2,               // Below this the frame has effectively stopped
+    failureSpinDecay: 4,              // Missed frame winds down within about a second
+    catchWindowDuration: 500,         // 500ms catch window
+    catchWindowAngleMargin: Math.PI / 6, // ±30 degrees margin
+    stompVelocity: 1.2,               // Firm downward push on the bars
+    landingImpact: 0.5,               // Light grips can slip off on the landing
+    failureResetDelay: 1500,          // 1.5s delay after failure
+    successResetDelay: 2000,          // 2s delay after success
+  };
+
+  // State table
+  protected readonly states: TrickStateTable<TailwhipState> = {
+    [TailwhipState.READY]: {
+      transitions: [TailwhipState.WHIPPING],
+      color: "#00FF00", // Green
+    },
+    [TailwhipState.WHIPPING]: {
+      transitions: [TailwhipState.CATCH_WINDOW, TailwhipState.FAILED],
+      color: "#FF8800", // Orange
+    },
+    [TailwhipState.CATCH_WINDOW]: {
+      transitions: [TailwhipState.CAUGHT, TailwhipState.FAILED, TailwhipState.WHIPPING],
+      color: "#00FFFF", // Cyan
+    },
+    [TailwhipState.CAUGHT]: {
+      transitions: [TailwhipState.READY],
+      color: "#00FF88", // Teal
+      resetAfter: () => this.config.successResetDelay,
+    },
+    [TailwhipState.FAILED]: {
+      transitions: [TailwhipState.READY],
+      color: "#FF0000", // Red
+      resetAfter: () => this.config.failureResetDelay,
+    },
+  };
+
+  constructor(context: MechanicsContext) {
+    super(context, TailwhipState.READY);
+    this.gripSystem = context.gripSystem;
+
+    // Sits above the barspin debug display
+    this.debugPosition.set(0, 0.58, -0.45);
+  }
+
+  /**
+   * Extra fields to include on stateChange events
+   */
+  protected getStateChangeDetails(): Partial<TailwhipEvent> {
+    return {
+      spinDirection: this.spinDirection || undefined,
+      spinProgress: this.spinProgress,
+    };
+  }
+
+  /**
+   * Progress towards the next full turn while the frame is spinning
+   */
+  protected getDebugProgress(): number | null {
+    if (!this.isSpinning()) {
+      return null;
+    }
+    return (this.currentRotation % FullTurn) / FullTurn;
+  }
+
+  /**
+   * Handle the feet kicking off the frame
+   */
+  protected onFrameContactEnd(): boolean {
+    if (this._state !== TailwhipState.READY) {
+      // Already whipping - the frame is ours until reset
+      return true;
+    }
+
+    // Needs both hands on the bars to whip the frame around
+    if (!this.gripSystem.areBothHandsAttached() || !this.claimHands("left", "right", "feet")) {
+      this.gripSystem.resetFrameContact();
+      return false;
+    }
+
+    this.spinStartTime = this.now();
+    this.spinProgress = 0;
+    this.currentRotation = 0;
+    this.spinVelocity = Math.min(
+      this.config.kickBaseVelocity + Math.abs(this.steeringVelocity) * this.config.steeringVelocityMultiplier,
+      this.config.maxSpinVelocity
+    );
+    // Frame whips the opposite way to the bars being yanked
+    this.spinDirection = this.steeringVelocity > 0 ? "clockwise" : "counterclockwise";
+
+    this.setState(TailwhipState.WHIPPING);
+
+    this.emitEvent({
+      type: "kicked",
+      currentState: this._state,
+      spinDirection: this.spinDirection,
+      spinVelocity: this.spinVelocity,
+    });
+    return true;
+  }
+
+  /**
+   * Handle the feet landing back on the frame
+   */
+  protected onFrameContactStart(): boolean {
+    const catchMethod = this.pendingCatchMethod;
+    this.pendingCatchMethod = "button";
+
+    switch (this._state) {
+      case TailwhipState.WHIPPING:
+        if (this.currentRotation < this.config.catchWindowAngleMargin) {
+          // Feet went straight back down after the kick - nothing happened
+          this.reset();
+        } else {
+          this.fail("earlyCatch");
+        }
+        return true;
+
+      case TailwhipState.CATCH_WINDOW: {
+        // Positive error along the spin direction means the frame has already passed straight (late)
+        const angleError = this.currentRotation - this.catchPointIndex * FullTurn;
+        const timingError = this.spinVelocity > 0 ? (angleError / this.spinVelocity) * 1000 : 0;
+        const rotation = this.catchPointIndex * 360;
+
+        if (Math.abs(angleError) > this.config.catchWindowAngleMargin) {
+          this.emitEvent({
+            type: "catchMissed",
+            currentState: this._state,
+            spinProgress: this.spinProgress,
+            rotation: rotation,
+            catchMethod: catchMethod,
+            angleError: angleError,
+            timingError: timingError,
+          });
+          this.fail("missedCatch");
+          return true;
+        }
+
+        // Frame snaps straight under the feet
+        this.landedRotation = rotation;
+        this.catchMethod = catchMethod;
+        this.currentRotation = this.catchPointIndex * FullTurn;
+        this.spinVelocity = 0;
+        this.setState(TailwhipState.CAUGHT);
+        this.context.gripSystem.applyImpact(this.config.landingImpact);
+
+        this.emitEvent({
+          type: "success",
+          currentState: this._state,
+          spinDirection: this.spinDirection || undefined,
+          spinProgress: this.spinProgress,
+          rotation: this.landedRotation,
+          catchMethod: catchMethod,
+          angleError: angleError,
+          timingError: timingError,
+          catchAccuracy: THREE.MathUtils.clamp(1 - Math.abs(angleError) / this.config.catchWindowAngleMargin, 0, 1),
+        });
+        return true;
+      }
+    }
+
+    // Feet landing during CAUGHT/FAILED are part of this attempt
+    return this.isActive();
+  }
+
+  /**
+   * Handle grip release event
+   */
+  protected onGripEnd(_hand: "left" | "right"): boolean {
+    if (this.isSpinning()) {
+      // Let go of the bars mid-whip
+      this.fail("handsReleased");
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Update method called each frame
+   */
+  protected onUpdate(deltaTime: number): void {
+    switch (this._state) {
+      case TailwhipState.READY:
+        this.updateReadyState(deltaTime);
+        break;
+
+      case TailwhipState.WHIPPING:
+        this.updateWhippingState(deltaTime);
+        break;
+
+      case TailwhipState.CATCH_WINDOW:
+        this.updateCatchWindowState(deltaTime);
+        break;
+
+      case TailwhipState.FAILED:
+        this.updateFailedState(deltaTime);
+        break;
+    }
+  }
+
+  /**
+   * Update READY state
+   */
+  private updateReadyState(deltaTime: number): void {
+    // Track how hard the bars are being yanked, so the kick can pick it up
+    if (!this.gripSystem.areBothHandsAttached() || deltaTime <= 0) {
+      this.steeringVelocity = 0;
+      this.lastSteering = null;
+      return;
+    }
+
+    const steering = this.gripSystem.calculateHandlebarRotation();
+    if (this.lastSteering !== null) {
+      const rate = toRealTimeRate((steering - this.lastSteering) / deltaTime, this.context.environment.clock);
+      const blend = 1 - Math.exp(-this.config.steeringVelocitySmoothing * deltaTime);
+      this.steeringVelocity += (rate - this.steeringVelocity) * blend;
+    }
+    this.lastSteering = steering;
+  }
+
+  /**
+   * Update WHIPPING state
+   */
+  private updateWhippingState(deltaTime: number): void {
+    this.integrateSpin(deltaTime);
+
+    // Frame ran out of speed before coming round
+    if (this.spinVelocity < this.config.minSpinVelocity) {
+      this.fail("stalled");
+      return;
+    }
+
+    // A window opens as the frame comes within the catch margin of each full turn
+    const nearestFullTurn = Math.round(this.currentRotation / FullTurn);
+    const offset = this.currentRotation - nearestFullTurn * FullTurn;
+    if (nearestFullTurn > this.catchPointIndex && Math.abs(offset) <= this.config.catchWindowAngleMargin) {
+      this.catchPointIndex = nearestFullTurn;
+      this.catchWindowStartTime = this.now();
+      this.lastHandHeight = null;
+      this.setState(TailwhipState.CATCH_WINDOW);
+
+      this.emitEvent({
+        type: "catchWindowOpen",
+        currentState: this._state,
+        spinProgress: this.spinProgress,
+        rotation: this.catchPointIndex * 360,
+      });
+    }
+  }
+
+  /**
+   * Update CATCH_WINDOW state
+   */
+  private updateCatchWindowState(deltaTime: number): void {
+    const elapsed = this.now() - this.catchWindowStartTime;
+
+    this.integrateSpin(deltaTime);
+
+    // Stomping down on the bars pulls the frame back under the feet
+    if (this.detectStomp(deltaTime)) {
+      this.pendingCatchMethod = "gesture";
+      const caught = this.gripSystem.catchFrame();
+      this.pendingCatchMethod = "button";
+      if (caught) {
+        return;
+      }
+    }
+
+    // The frame has spun past straight, or the rider took too long
+    const passedCatchPoint = this.currentRotation > this.catchPointIndex * FullTurn + this.config.catchWindowAngleMargin;
+    if (!passedCatchPoint && elapsed <= this.config.catchWindowDuration) {
+      return;
+    }
+
+    this.emitEvent({
+      type: "catchWindowClose",
+      currentState: this._state,
+      spinProgress: this.spinProgress,
+      rotation: this.catchPointIndex * 360,
+    });
+
+    if (this.spinVelocity < this.config.minSpinVelocity) {
+      this.fail("missedCatch");
+    } else {
+      // Frame keeps going round to the next full turn
+      this.setState(TailwhipState.WHIPPING);
+    }
+  }
+
+  /**
+   * Check whether both gripping hands just pushed down sharply
+   */
+  private detectStomp(deltaTime: number): boolean {
+    const left = this.context.environment.input.getHand("left");
+    const right = this.context.environment.input.getHand("right");
+    if (!left?.isTracked || !right?.isTracked) {
+      this.lastHandHeight = null; // Don't measure across a tracking gap
+      return false;
+    }
+    if (deltaTime <= 0) {
+      return false;
+    }
+
+    __handMidpoint.copy(left.wristWPos).add(right.wristWPos).multiplyScalar(0.5);
+    const previousHeight = this.lastHandHeight;
+    this.lastHandHeight = __handMidpoint.y;
+    if (previousHeight === null) {
+      return false;
+    }
+
+    const downwardVelocity = toRealTimeRate((previousHeight - __handMidpoint.y) / deltaTime, this.context.environment.clock);
+    return downwardVelocity > this.config.stompVelocity;
+  }
+
+  /**
+   * Update FAILED state
+   */
+  private updateFailedState(deltaTime: number): void {
+    // Missed frame keeps turning and winds down instead of snapping back
+    if (this.spinVelocity > 0) {
+      this.integrateSpin(deltaTime, this.config.failureSpinDecay);
+      if (this.spinVelocity < 0.05) {
+        this.spinVelocity = 0;
+      }
+    }
+  }
+
+  /**
+   * Advance the free spin by one frame, applying decay
+   */
+  private integrateSpin(deltaTime: number, decay: number = this.config.spinDecay): void {
+    this.spinVelocity *= Math.exp(-decay * deltaTime);
+    this.currentRotation += this.spinVelocity * deltaTime;
+    this.spinProgress = this.currentRotation / FullTurn;
+  }
+
+  /**
+   * Move to FAILED and emit the failure (the state table schedules the reset)
+   */
+  private fail(reason: TailwhipFailureReason): void {
+    this.setState(TailwhipState.FAILED);
+
+    this.emitEvent({
+      type: "failed",
+      currentState: this._state,
+      spinDirection: this.spinDirection || undefined,
+      spinProgress: this.spinProgress,
+      spinVelocity: this.spinVelocity,
+      reason: reason,
+    });
+  }
+
+  /**
+   * Clear spin and catch tracking before returning to READY
+   */
+  protected onReset(_fromState: TailwhipState): void {
+    // Rider recovers with their feet back on the frame
+    this.gripSystem.resetFrameContact();
+
+    this.spinDirection = null;
+    this.spinStartTime = 0;
+    this.spinProgress = 0;
+    this.currentRotation = 0;
+    this.spinVelocity = 0;
+    this.steeringVelocity = 0;
+    this.lastSteering = null;
+    this.lastHandHeight = null;
+    this.pendingCatchMethod = "button";
+    this.catchWindowStartTime = 0;
+    this.catchPointIndex = 0;
+    this.landedRotation = null;
+    this.catchMethod = null;
+  }
+
+  /**
+   * Check if tailwhip can be initiated
+   */
+  canInitiate(): boolean {
+    return (
+      this._state === TailwhipState.READY && this.gripSystem.areBothHandsAttached() && this.gripSystem.areFeetOnFrame()
+    );
+  }
+
+  /**
+   * Check if the frame is currently spinning
+   */
+  isSpinning(): boolean {
+    return this._state === TailwhipState.WHIPPING || this._state === TailwhipState.CATCH_WINDOW;
+  }
+
+  /**
+   * Check if in catch window
+   */
+  isInCatchWindow(): boolean {
+    return this._state === TailwhipState.CATCH_WINDOW;
+  }
+
+  /**
+   * Check if the frame is moving on its own (spinning, or winding down after a miss)
+   */
+  isFrameFree(): boolean {
+    return this.isSpinning() || (this._state === TailwhipState.FAILED && this.spinStartTime > 0);
+  }
+
+  /**
+   * Frame angle around the head tube, including the spin direction.
+   * Not wrapped, so it increases smoothly through multiple rotations.
+   */
+  getFrameAngle(): number {
+    const sign = this.spinDirection === "clockwise" ? -1 : 1;
+    return this.currentRotation * sign;
+  }
+
+  /**
+   * Get debug info string
+   */
+  getDebugInfo(): string {
+    let info = `Tailwhip: ${this._state}`;
+
+    if (this.isSpinning()) {
+      info += ` (${THREE.MathUtils.radToDeg(this.currentRotation).toFixed(0)}° @ ${this.spinVelocity.toFixed(1)} rad/s)`;
+    }
+
+    if (this.landedRotation !== null) {
+      info += ` ${this.landedRotation} (${this.catchMethod})`;
+    }
+
+    if (this.spinDirection) {
+      info += ` [${this.spinDirection}]`;
+    }
+
+    return info;
+  }
+}
@@ -0,0 +1,406 @@
+import * as THREE from "three";
+import { GripContact, GripEvent } from "./GripSystem";
+import { MechanicsContext } from "./MechanicsContext";
+import type { TrickRegistry } from "./TrickRegistry";
+import { VRUILabel, VRUIPanel, VRUIProgressBar } from "../ui/VRUIPanel";
+
+export type TrickHand = "left" | "right";
+
+/**
+ * Base shape of every event a trick emits.
+ * Each trick's event type union must include "stateChange".
+ */
+export interface TrickEvent<TState extends string> {
+  type: string;
+  previousState?: TState;
+  currentState: TState;
+}
+
+/**
+ * Timeout that fires if a state is held for too long
+ */
+export interface TrickStateTimeout {
+  duration: () => number; // Time allowed in the state (ms), read when checked so config changes apply
+  onTimeout: () => void; // Called once when the duration is exceeded
+}
+
+/**
+ * Declarative definition of a single trick state
+ */
+export interface TrickStateDefinition<TState extends string> {
+  transitions: TState[]; // States this state may move to
+  color: string; // Debug visualization color
+  timeout?: TrickStateTimeout; // Optional timeout while in this state
+  resetAfter?: () => number; // Reset to the initial state after this long in the state (ms)
+}
+
+export type TrickStateTable<TState extends string> = Record<TState, TrickStateDefinition<TState>>;
+
+type TrickEventListener<TEvent> = (event: TEvent) => void;
+
+/**
+ * What the TrickRegistry (and anything watching every trick) uses of a trick,
+ * whatever its state and event types
+ */
+export interface RegisteredTrick {
+  readonly name: string;
+  readonly state: string;
+  onRegistered(registry: TrickRegistry): void;
+  handleGripEvent(event: GripEvent): boolean;
+  update(deltaTime: number): void;
+  reset(): void;
+  dispose(): void;
+  addEventListener(type: string, listener: TrickEventListener<TrickEvent<string>>): void;
+}
+
+/**
+ * TrickMechanic is the base class for every trick state machine.
+ *
+ * Subclasses provide:
+ * - A declarative state table (transitions, debug colors, timeouts, reset delays)
+ * - Grip event handlers that return true when they used the event
+ * - Per-frame logic in onUpdate() and field cleanup in onReset()
+ *
+ * The base class handles state validation, typed event listeners, timeouts,
+ * reset scheduling, hand claims through the TrickRegistry and the debug sprite.
+ */
+export abstract class TrickMechanic<TState extends string, TEvent extends TrickEvent<TState>> implements RegisteredTrick {
+  context: MechanicsContext;
+
+  /** Display name, also used in logs */
+  abstract readonly name: string;
+
+  /** State table - transitions, colors, timeouts and resets for each state */
+  protected abstract readonly states: TrickStateTable<TState>;
+
+  // Current state
+  protected _state: TState;
+  protected previousState: TState;
+  protected readonly initialState: TState;
+  protected stateEnteredAt: number = 0;
+  private timeoutFired: boolean = false;
+
+  // Registry this trick belongs to (set on registration)
+  protected registry: TrickRegistry | null = null;
+
+  // Event listeners
+  private listeners: Map<TEvent["type"], TrickEventListener<TEvent>[]> = new Map();
+
+  // Debug visualization
+  protected debugPosition: THREE.Vector3 = new THREE.Vector3(0, 0.3, -0.45);
+  private debugPanel: VRUIPanel | null = null;
+  private debugStateLabel: VRUILabel | null = null;
+  private debugProgressBar: VRUIProgressBar | null = null;
+
+  constructor(context: MechanicsContext, initialState: TState) {
+    this.context = context;
+    this.initialState = initialState;
+    this._state = initialState;
+    this.previousState = initialState;
+  }
+
+  /**
+   * Called by the TrickRegistry when the trick is registered
+   */
+  onRegistered(registry: TrickRegistry): void {
+    this.registry = registry;
+    this.createDebugVisualization();
+  }
+
+  /**
+   * Current time on the mechanics clock (ms)
+   */
+  protected now(): number {
+    return this.context.environment.clock.now();
+  }
+
+  /**
+   * Get current state
+   */
+  get state(): TState {
+    return this._state;
+  }
+
+  /**
+   * Check if the trick is underway (not in its initial state)
+   */
+  isActive(): boolean {
+    return this._state !== this.initialState;
+  }
+
+  /**
+   * Set state with validation and event emission
+   */
+  protected setState(newState: TState): void {
+    if (newState === this._state) {
+      return;
+    }
+
+    // Validate state transition
+    if (!this.states[this._state].transitions.includes(newState)) {
+      console.warn(`Invalid ${this.name} state transition: ${this._state} -> ${newState}`);
+      return;
+    }
+
+    this.previousState = this._state;
+    this._state = newState;
+    this.stateEnteredAt = this.now();
+    this.timeoutFired = false;
+
+    console.log(`${this.name} state: ${this.previousState} -> ${this._state}`);
+
+    // Emit state change event
+    this.emitEvent({
+      ...this.getStateChangeDetails(),
+      type: "stateChange",
+      previousState: this.previousState,
+      currentState: this._state,
+    } as TEvent);
+
+    // Update debug visualization
+    this.updateDebugVisualization();
+  }
+
+  /**
+   * Extra fields to include on stateChange events
+   */
+  protected getStateChangeDetails(): Partial<TEvent> {
+    return {};
+  }
+
+  /**
+   * Add event listener
+   */
+  addEventListener(type: TEvent["type"], listener: TrickEventListener<TEvent>): void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = [];
+      this.listeners.set(type, listeners);
+    }
+    listeners.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  removeEventListener(type: TEvent["type"], listener: TrickEventListener<TEvent>): void {
+    const listeners = this.listeners.get(type);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  protected emitEvent(event: TEvent): void {
+    const listeners = this.listeners.get(event.type);
+    if (listeners) {
+      for (const listener of listeners) {
+        listener(event);
+      }
+    }
+  }
+
+  /**
+   * Route a grip event to the trick's handlers.
+   * Returns true if the trick used the event.
+   */
+  handleGripEvent(event: GripEvent): boolean {
+    if (event.hand === "feet") {
+      switch (event.type) {
+        case "frameContactStart":
+          return this.onFrameContactStart();
+        case "frameContactEnd":
+          return this.onFrameContactEnd();
+        default:
+          return false;
+      }
+    }
+
+    switch (event.type) {
+      case "gripStart":
+        return this.onGripStart(event.hand);
+      case "gripEnd":
+        return this.onGripEnd(event.hand);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Handle a hand starting to grip. Return true if the event was used.
+   */
+  protected onGripStart(_hand: TrickHand): boolean {
+    return false;
+  }
+
+  /**
+   * Handle a hand releasing its grip. Return true if the event was used.
+   */
+  protected onGripEnd(_hand: TrickHand): boolean {
+    return false;
+  }
+
+  /**
+   * Handle the feet landing back on the frame. Return true if the event was used.
+   */
+  protected onFrameContactStart(): boolean {
+    return false;
+  }
+
+  /**
+   * Handle the feet kicking off the frame. Return true if the event was used.
+   */
+  protected onFrameContactEnd(): boolean {
+    return false;
+  }
+
+  /**
+   * Claim exclusive use of grip events for these hands (or the feet).
+   * Returns false if another trick already owns one of them.
+   */
+  protected claimHands(...hands: GripContact[]): boolean {
+    return this.registry ? this.registry.claimHands(this, hands) : true;
+  }
+
+  /**
+   * Give up any hands this trick has claimed
+   */
+  protected releaseHands(): void {
+    this.registry?.releaseHands(this);
+  }
+
+  /**
+   * Update method called each frame by the registry
+   */
+  update(deltaTime: number): void {
+    const definition = this.states[this._state];
+    const elapsed = this.now() - this.stateEnteredAt;
+
+    // State timeout (the handler usually moves to another state, picked up next frame)
+    if (definition.timeout && !this.timeoutFired && elapsed > definition.timeout.duration()) {
+      this.timeoutFired = true;
+      definition.timeout.onTimeout();
+      return;
+    }
+
+    // Scheduled reset
+    if (definition.resetAfter && elapsed > definition.resetAfter()) {
+      this.reset();
+      return;
+    }
+
+    this.onUpdate(deltaTime);
+
+    // Progress moves every frame; the panel only redraws when it changed
+    this.updateDebugVisualization();
+    this.debugPanel?.update();
+  }
+
+  /**
+   * Per-frame trick logic
+   */
+  protected abstract onUpdate(deltaTime: number): void;
+
+  /**
+   * Reset state machine to its initial state (a stateChange tells the listeners, unless it was already there)
+   */
+  reset(): void {
+    const fromState = this._state;
+
+    this.onReset(fromState);
+
+    this._state = this.initialState;
+    this.previousState = fromState;
+    this.stateEnteredAt = this.now();
+    this.timeoutFired = false;
+    this.releaseHands();
+
+    this.updateDebugVisualization();
+
+    console.log(`${this.name} reset to ${this.initialState}`);
+
+    if (fromState !== this.initialState) {
+      this.emitEvent({
+        ...this.getStateChangeDetails(),
+        type: "stateChange",
+        previousState: fromState,
+        currentState: this._state,
+      } as TEvent);
+    }
+  }
+
+  /**
+   * Clear trick-specific tracking before the state returns to initial
+   */
+  protected abstract onReset(fromState: TState): void;
+
+  /**
+   * Progress (0-1) to show on the debug bar, or null to hide it
+   */
+  protected getDebugProgress(): number | null {
+    return null;
+  }
+
+  /**
+   * Create the debug panel showing the state and progress
+   */
+  private createDebugVisualization(): void {
+    // Headless runs have nowhere to show it
+    if (!this.context.cameraRig) {
+      return;
+    }
+
+    this.debugPanel = new VRUIPanel({ canvasWidth: 512, canvasHeight: 128, worldWidth: 1.0, gap: 10 });
+    this.debugStateLabel = this.debugPanel.add(new VRUILabel(this._state, { size: 48, bold: true, align: "center" }, 58));
+    this.debugProgressBar = this.debugPanel.add(new VRUIProgressBar());
+
+    // Add to camera rig so it moves with player
+    this.debugPanel.attachTo(this.context.cameraRig, this.debugPosition);
+
+    // Initial render
+    this.updateDebugVisualization();
+    this.debugPanel.update();
+  }
+
+  /**
+   * Show the current state and progress on the debug panel (redrawn on its next update)
+   */
+  protected updateDebugVisualization(): void {
+    if (!this.debugStateLabel || !this.debugProgressBar) {
+      return;
+    }
+
+    const color = this.states[this._state].color;
+    this.debugStateLabel.setText(this._state);
+    this.debugStateLabel.setColor(color);
+
+    const progress = this.getDebugProgress();
+    this.debugProgressBar.setVisible(progress !== null);
+    this.debugProgressBar.setColor(color);
+    this.debugProgressBar.setValue(progress ?? 0);
+  }
+
+  /**
+   * Show/hide debug visualization
+   */
+  setDebugVisible(visible: boolean): void {
+    if (this.debugPanel) {
+      this.debugPanel.visible = visible;
+    }
+  }
+
+  /**
+   * Cleanup resources
+   */
+  dispose(): void {
+    this.debugPanel?.dispose();
+
+    this.releaseHands();
+    this.listeners.clear();
+  }
+}
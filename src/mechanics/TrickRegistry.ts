@@ -0,0 +1,130 @@
+import { GripContact, GripEvent } from "./GripSystem";
+import { MechanicsContext } from "./MechanicsContext";
+import { RegisteredTrick } from "./TrickMechanic";
+
+/**
+ * TrickRegistry owns every trick mechanic, updates them each frame and
+ * routes grip events between them.
+ *
+ * Grip routing:
+ * - A hand (or the feet) claimed by a trick sends its grip events only to that trick
+ * - Unclaimed events are offered to tricks in registration order until one uses them
+ * - A hand can only be claimed by one trick at a time
+ */
+export class TrickRegistry {
+  context: MechanicsContext;
+  tricks: RegisteredTrick[] = [];
+
+  // Which trick owns grip events for each hand
+  private handClaims: Map<GripContact, RegisteredTrick> = new Map();
+
+  constructor(context: MechanicsContext) {
+    this.context = context;
+
+    // Single subscription - tricks receive grip events through the registry
+    this.context.gripSystem.addEventListener("gripStart", (event) => this.dispatchGripEvent(event));
+    this.context.gripSystem.addEventListener("gripEnd", (event) => this.dispatchGripEvent(event));
+    this.context.gripSystem.addEventListener("frameContactStart", (event) => this.dispatchGripEvent(event));
+    this.context.gripSystem.addEventListener("frameContactEnd", (event) => this.dispatchGripEvent(event));
+  }
+
+  /**
+   * Register a trick so it is updated each frame and receives grip events
+   */
+  register<T extends RegisteredTrick>(trick: T): T {
+    this.tricks.push(trick);
+    trick.onRegistered(this);
+    console.log(`TrickRegistry: Registered ${trick.name}`);
+    return trick;
+  }
+
+  /**
+   * Remove a trick and release any hands it had claimed
+   */
+  unregister(trick: RegisteredTrick): void {
+    const index = this.tricks.indexOf(trick);
+    if (index !== -1) {
+      this.tricks.splice(index, 1);
+    }
+    this.releaseHands(trick);
+  }
+
+  /**
+   * Update every registered trick
+   */
+  update(deltaTime: number): void {
+    for (const trick of this.tricks) {
+      trick.update(deltaTime);
+    }
+  }
+
+  /**
+   * Send a grip event to the trick that owns the hand, or offer it to each trick in turn
+   */
+  private dispatchGripEvent(event: GripEvent): void {
+    const owner = this.handClaims.get(event.hand);
+    if (owner) {
+      owner.handleGripEvent(event);
+      return;
+    }
+
+    for (const trick of this.tricks) {
+      if (trick.handleGripEvent(event)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Claim hands for a trick. Fails (claiming nothing) if another trick owns any of them.
+   */
+  claimHands(trick: RegisteredTrick, hands: GripContact[]): boolean {
+    for (const hand of hands) {
+      const owner = this.handClaims.get(hand);
+      if (owner && owner !== trick) {
+        return false;
+      }
+    }
+
+    for (const hand of hands) {
+      this.handClaims.set(hand, trick);
+    }
+    return true;
+  }
+
+  /**
+   * Release every hand claimed by a trick
+   */
+  releaseHands(trick: RegisteredTrick): void {
+    for (const [hand, owner] of this.handClaims) {
+      if (owner === trick) {
+        this.handClaims.delete(hand);
+      }
+    }
+  }
+
+  /**
+   * Get the trick that currently owns a hand's grip events
+   */
+  getClaimOwner(hand: GripContact): RegisteredTrick | null {
+    return this.handClaims.get(hand) ?? null;
+  }
+
+  /**
+   * Find a registered trick by name
+   */
+  getTrick(name: string): RegisteredTrick | null {
+    return this.tricks.find((trick) => trick.name === name) ?? null;
+  }
+
+  /**
+   * Cleanup all tricks
+   */
+  dispose(): void {
+    for (const trick of this.tricks) {
+      trick.dispose();
+    }
+    this.tricks = [];
+    this.handClaims.clear();
+  }
+}
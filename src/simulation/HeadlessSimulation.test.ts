@@ -0,0 +1,237 @@
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HeadlessSimulation, ScriptedController } from "./HeadlessSimulation";
+
+const UP = new THREE.Vector3(0, 1, 0);
+const __twist = new THREE.Quaternion();
+
+// Both hands onto the grips at the start of every scenario
+const GripBoth = ["grip:enterProximity", "grip:gripStart", "grip:enterProximity", "grip:gripStart"];
+// Left hand lets go while the right holds on
+const ReleaseLeft = ["grip:exitProximity", "barspin:stateChange", "barspin:initiated", "grip:gripEnd"];
+// Right hand lets go after a hard enough twist
+const Throw = ["grip:exitProximity", "barspin:stateChange", "barspin:spinning", "grip:gripEnd"];
+// A catch window comes and goes with nobody catching
+const MissedWindow = ["barspin:stateChange", "barspin:catchWindowOpen", "barspin:catchWindowClose", "barspin:stateChange"];
+
+/**
+ * A simulation with both hands holding the grips
+ */
+function startGripping(): { sim: HeadlessSimulation; left: ScriptedController; right: ScriptedController } {
+  const sim = new HeadlessSimulation();
+  const left = sim.input.left!;
+  const right = sim.input.right!;
+  sim.getGripWorldPosition("left", left.wristWPos);
+  sim.getGripWorldPosition("right", right.wristWPos);
+  left.squeeze = true;
+  right.squeeze = true;
+  sim.run(3);
+  return { sim, left, right };
+}
+
+/**
+ * Let go and move the hand clear of the bars
+ */
+function release(sim: HeadlessSimulation, hand: ScriptedController): void {
+  hand.squeeze = false;
+  hand.wristWPos.x += hand.handedness === "left" ? -0.3 : 0.3;
+  hand.wristWPos.y += 0.2;
+  sim.step();
+}
+
+/**
+ * Turn a wrist around the stem at a steady rate (rad/s)
+ */
+function twist(sim: HeadlessSimulation, hand: ScriptedController, rate: number, frames: number = 6): void {
+  for (let i = 0; i < frames; i++) {
+    __twist.setFromAxisAngle(UP, rate / 72);
+    hand.wristWQuat.premultiply(__twist);
+    sim.step();
+  }
+}
+
+/**
+ * Put a hand on a grip and squeeze
+ */
+function grab(sim: HeadlessSimulation, hand: ScriptedController, side: "left" | "right"): void {
+  sim.getGripWorldPosition(side, hand.wristWPos);
+  hand.squeeze = true;
+  sim.step();
+}
+
+function throwBars(sim: HeadlessSimulation, left: ScriptedController, right: ScriptedController): void {
+  release(sim, left);
+  twist(sim, right, 6);
+  release(sim, right);
+}
+
+function runUntilState(sim: HeadlessSimulation, state: string, maxFrames: number = 1000): void {
+  for (let i = 0; i < maxFrames && sim.barspinMechanic.state !== state; i++) {
+    sim.step();
+  }
+  expect(sim.barspinMechanic.state).toBe(state);
+}
+
+/**
+ * "FROM->TO" of every barspin state change
+ */
+function getStatePath(sim: HeadlessSimulation): string[] {
+  return sim.events
+    .filter((record) => record.source === "barspin" && record.type === "stateChange")
+    .map((record) => {
+      const event = record.event as { previousState: string; currentState: string };
+      return `${event.previousState}->${event.currentState}`;
+    });
+}
+
+function getFailureReasons(sim: HeadlessSimulation): string[] {
+  return sim.events.filter((record) => record.type === "failed").map((record) => (record.event as { reason: string }).reason);
+}
+
+describe("Barspin", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lands a 180 caught on the swapped grips", () => {
+    const { sim, left, right } = startGripping();
+    throwBars(sim, left, right);
+    runUntilState(sim, "CATCH_WINDOW");
+    // Odd half turn - each hand takes the grip from the other side
+    grab(sim, left, "right");
+    grab(sim, right, "left");
+    sim.runFor(0.1);
+
+    expect(sim.getEventSequence()).toEqual([
+      ...GripBoth,
+      ...ReleaseLeft,
+      ...Throw,
+      "barspin:stateChange",
+      "barspin:catchWindowOpen",
+      "grip:enterProximity",
+      "barspin:firstCatch",
+      "grip:gripStart",
+      "grip:enterProximity",
+      "barspin:stateChange",
+      "barspin:secondCatch",
+      "barspin:success",
+      "grip:gripStart",
+    ]);
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->SPINNING", "SPINNING->CATCH_WINDOW", "CATCH_WINDOW->CAUGHT"]);
+    expect(sim.barspinMechanic.landedRotation).toBe(180);
+    expect(sim.scoreSystem.history).toHaveLength(1);
+    expect(sim.scoreSystem.history[0].difficulty).toBe("standard");
+  });
+
+  it("goes back to READY after successResetDelay", () => {
+    const { sim, left, right } = startGripping();
+    throwBars(sim, left, right);
+    runUntilState(sim, "CATCH_WINDOW");
+    grab(sim, left, "right");
+    grab(sim, right, "left");
+    sim.runFor(sim.barspinMechanic.config.successResetDelay / 1000 - 0.1);
+    expect(sim.barspinMechanic.state).toBe("CAUGHT");
+
+    sim.runFor(0.2);
+    expect(getStatePath(sim).slice(-2)).toEqual(["CATCH_WINDOW->CAUGHT", "CAUGHT->READY"]);
+    expect(sim.barspinMechanic.state).toBe("READY");
+  });
+
+  it("tells the listeners when reset mid-spin", () => {
+    const { sim, left, right } = startGripping();
+    throwBars(sim, left, right);
+    sim.barspinMechanic.reset();
+
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->SPINNING", "SPINNING->READY"]);
+    expect(getFailureReasons(sim)).toEqual([]);
+  });
+
+  it("fails with timeout when the second hand holds on too long", () => {
+    const { sim, left } = startGripping();
+    release(sim, left);
+    sim.runFor(1);
+
+    expect(sim.getEventSequence()).toEqual([...GripBoth, ...ReleaseLeft, "barspin:stateChange", "barspin:failed"]);
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->FAILED"]);
+    expect(getFailureReasons(sim)).toEqual(["timeout"]);
+  });
+
+  it("fails with weakThrow when both hands let go without a twist", () => {
+    const { sim, left, right } = startGripping();
+    release(sim, left);
+    release(sim, right);
+    sim.runFor(0.1);
+
+    expect(sim.getEventSequence()).toEqual([
+      ...GripBoth,
+      ...ReleaseLeft,
+      "grip:exitProximity",
+      "barspin:stateChange",
+      "barspin:failed",
+      "grip:gripEnd",
+    ]);
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->FAILED"]);
+    expect(getFailureReasons(sim)).toEqual(["weakThrow"]);
+  });
+
+  it("fails with stalled when nobody catches before the spin dies", () => {
+    const { sim, left, right } = startGripping();
+    throwBars(sim, left, right);
+    sim.runFor(6);
+
+    const missedWindows = Array.from({ length: 5 }, () => MissedWindow).flat();
+    expect(sim.getEventSequence()).toEqual([
+      ...GripBoth,
+      ...ReleaseLeft,
+      ...Throw,
+      ...missedWindows,
+      "barspin:stateChange",
+      "barspin:failed",
+      "barspin:stateChange",
+    ]);
+    // Back to READY after failureResetDelay
+    expect(getStatePath(sim).slice(-3)).toEqual(["CATCH_WINDOW->SPINNING", "SPINNING->FAILED", "FAILED->READY"]);
+    expect(getFailureReasons(sim)).toEqual(["stalled"]);
+  });
+
+  it("fails with missedCatch when only one hand catches", () => {
+    const { sim, left, right } = startGripping();
+    throwBars(sim, left, right);
+    runUntilState(sim, "CATCH_WINDOW");
+    grab(sim, left, "right");
+    sim.runFor(1);
+
+    expect(sim.getEventSequence()).toEqual([
+      ...GripBoth,
+      ...ReleaseLeft,
+      ...Throw,
+      "barspin:stateChange",
+      "barspin:catchWindowOpen",
+      "grip:enterProximity",
+      "barspin:firstCatch",
+      "grip:gripStart",
+      "barspin:catchWindowClose",
+      "barspin:stateChange",
+      "barspin:failed",
+    ]);
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->SPINNING", "SPINNING->CATCH_WINDOW", "CATCH_WINDOW->FAILED"]);
+    expect(getFailureReasons(sim)).toEqual(["missedCatch"]);
+    expect(sim.scoreSystem.history).toHaveLength(0);
+  });
+
+  it("cancels back to READY when the released hand grips again", () => {
+    const { sim, left } = startGripping();
+    release(sim, left);
+    grab(sim, left, "left");
+    sim.run(3);
+
+    expect(sim.getEventSequence()).toEqual([...GripBoth, ...ReleaseLeft, "grip:enterProximity", "barspin:stateChange", "grip:gripStart"]);
+    expect(getStatePath(sim)).toEqual(["READY->INITIATED", "INITIATED->READY"]);
+    expect(getFailureReasons(sim)).toEqual([]);
+    expect(sim.barspinMechanic.state).toBe("READY");
+  });
+});
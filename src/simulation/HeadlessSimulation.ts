@@ -0,0 +1,292 @@
+import * as THREE from "three";
+import { GripEventType, GripSystem } from "../mechanics/GripSystem";
+import { BarspinEventType, BarspinMechanic } from "../mechanics/BarspinMechanic";
+import { TailwhipEventType, TailwhipMechanic } from "../mechanics/TailwhipMechanic";
+import { TrickRegistry } from "../mechanics/TrickRegistry";
+import { ScoreContext, ScoreSystem } from "../mechanics/ScoreSystem";
+import { DEFAULT_DIFFICULTY, DifficultyPresetName, applyDifficultyPreset } from "../mechanics/DifficultyPresets";
+import { HapticFeedback } from "../feedback/HapticFeedback";
+import { Handedness, HandInput } from "../utils/handInput";
+import {
+  FrameClock,
+  ManualScheduler,
+  MechanicsContext,
+  MechanicsEnvironment,
+  MechanicsInputProvider,
+} from "../mechanics/MechanicsContext";
+
+const GripEventTypes: GripEventType[] = [
+  "enterProximity",
+  "exitProximity",
+  "gripStart",
+  "gripEnd",
+  "frameContactStart",
+  "frameContactEnd",
+  "slipStart",
+  "slipRecovered",
+  "slipRelease",
+];
+
+const BarspinEventTypes: BarspinEventType[] = [
+  "stateChange",
+  "initiated",
+  "spinning",
+  "catchWindowOpen",
+  "catchWindowClose",
+  "catchMissed",
+  "firstCatch",
+  "secondCatch",
+  "success",
+  "failed",
+];
+
+const TailwhipEventTypes: TailwhipEventType[] = [
+  "stateChange",
+  "kicked",
+  "catchWindowOpen",
+  "catchWindowClose",
+  "catchMissed",
+  "success",
+  "failed",
+];
+
+/**
+ * Hand whose wrist pose and buttons are set directly by a script
+ */
+export class ScriptedController implements HandInput {
+  readonly handedness: Handedness;
+  readonly source = "scripted";
+  isTracked: boolean = true;
+  wristWPos: THREE.Vector3 = new THREE.Vector3();
+  wristWQuat: THREE.Quaternion = new THREE.Quaternion();
+  squeeze: boolean = false;
+  analogGripStrength: number | null = null; // Set for analog grip scripts; otherwise grip strength follows squeeze
+  footCatch: boolean = false;
+  select: boolean = false;
+  buttonA: boolean = false;
+  buttonB: boolean = false;
+  thumbStick: THREE.Vector2 = new THREE.Vector2();
+  vibrations: { intensity: number; timeMs: number }[] = []; // Every haptic pulse requested
+  displayAnchor: THREE.Vector3 | null = null; // Last display anchor GripSystem set
+
+  constructor(handedness: Handedness) {
+    this.handedness = handedness;
+  }
+
+  get gripStrength(): number {
+    return this.analogGripStrength ?? (this.squeeze ? 1 : 0);
+  }
+
+  vibrate(intensity: number, timeMs: number): void {
+    this.vibrations.push({ intensity, timeMs });
+  }
+
+  setDisplayAnchor(position: THREE.Vector3 | null): void {
+    this.displayAnchor = position ? (this.displayAnchor ?? new THREE.Vector3()).copy(position) : null;
+  }
+}
+
+/**
+ * Input provider backed by scripted hands (set a hand to undefined to disconnect it)
+ */
+export class ScriptedInputProvider implements MechanicsInputProvider {
+  left: ScriptedController | undefined = new ScriptedController("left");
+  right: ScriptedController | undefined = new ScriptedController("right");
+
+  getHand(hand: Handedness): ScriptedController | undefined {
+    return hand === "left" ? this.left : this.right;
+  }
+}
+
+/**
+ * An event seen during a simulation, in the order it was emitted
+ */
+export interface SimulationEventRecord {
+  time: number; // Mechanics clock time (ms)
+  frame: number;
+  source: "grip" | "barspin" | "tailwhip";
+  type: string;
+  event: object;
+}
+
+/**
+ * HeadlessSimulation runs GripSystem and the tricks without WebGL, a DOM or WebXR,
+ * so they can be driven from Node.
+ *
+ * - Time only moves when step() is called (FrameClock), and delayed work runs on a ManualScheduler
+ * - Controllers are ScriptedControllers: set wrist poses and buttons, then step()
+ * - The handlebar and frame layout mirrors Context; the bars and frame follow the tricks
+ *   and steering directly (without Context's smoothing)
+ * - Every grip and trick event is recorded in `events`
+ * - Landed tricks are scored by a ScoreSystem, as in Context
+ */
+export class HeadlessSimulation implements MechanicsContext, ScoreContext {
+  environment: MechanicsEnvironment;
+  clock: FrameClock;
+  scheduler: ManualScheduler;
+  input: ScriptedInputProvider;
+  haptics: HapticFeedback;
+
+  // Scene stand-ins (rig at the origin, like Context's camera rig)
+  root: THREE.Group;
+  handlebars: THREE.Group;
+  leftGripMarker: THREE.Mesh;
+  rightGripMarker: THREE.Mesh;
+  bikeFrame: THREE.Group;
+  seatMarker: THREE.Mesh;
+
+  gripSystem: GripSystem;
+  trickRegistry: TrickRegistry;
+  barspinMechanic: BarspinMechanic;
+  tailwhipMechanic: TailwhipMechanic;
+  scoreSystem: ScoreSystem;
+  difficulty: DifficultyPresetName = DEFAULT_DIFFICULTY;
+
+  frame: number = 0;
+  events: SimulationEventRecord[] = [];
+
+  constructor() {
+    this.clock = new FrameClock();
+    this.scheduler = new ManualScheduler(this.clock);
+    this.input = new ScriptedInputProvider();
+    this.environment = {
+      clock: this.clock,
+      scheduler: this.scheduler,
+      input: this.input,
+    };
+    this.haptics = new HapticFeedback(this.environment);
+
+    // Handlebars and grips, placed as in Context
+    this.root = new THREE.Group();
+    this.handlebars = new THREE.Group();
+    this.handlebars.position.set(0, -0.3, -0.45);
+    this.handlebars.rotation.x = Math.PI * 0.05;
+    this.root.add(this.handlebars);
+
+    const gripGeometry = new THREE.SphereGeometry(0.03, 8, 8);
+    this.leftGripMarker = new THREE.Mesh(gripGeometry);
+    this.leftGripMarker.position.set(-0.3, 0, 0);
+    this.handlebars.add(this.leftGripMarker);
+    this.rightGripMarker = new THREE.Mesh(gripGeometry);
+    this.rightGripMarker.position.set(0.3, 0, 0);
+    this.handlebars.add(this.rightGripMarker);
+
+    // Frame pivot and seat, placed as in Context
+    this.bikeFrame = new THREE.Group();
+    this.bikeFrame.position.set(0, -0.3, -0.45);
+    this.root.add(this.bikeFrame);
+    this.seatMarker = new THREE.Mesh(new THREE.SphereGeometry(0.04, 8, 8));
+    this.seatMarker.position.set(0, -0.12, 0.52);
+    this.bikeFrame.add(this.seatMarker);
+
+    this.root.updateMatrixWorld(true);
+
+    this.gripSystem = new GripSystem(this);
+    this.gripSystem.initializeGripZones();
+    this.gripSystem.initializeFrameZone();
+
+    this.trickRegistry = new TrickRegistry(this);
+    this.barspinMechanic = this.trickRegistry.register(new BarspinMechanic(this));
+    this.tailwhipMechanic = this.trickRegistry.register(new TailwhipMechanic(this));
+    this.scoreSystem = new ScoreSystem(this);
+
+    this.recordEvents();
+  }
+
+  getDifficulty(): DifficultyPresetName {
+    return this.difficulty;
+  }
+
+  /**
+   * Run the barspin and grips at a difficulty preset
+   */
+  setDifficulty(preset: DifficultyPresetName): void {
+    this.difficulty = preset;
+    applyDifficultyPreset(preset, this.barspinMechanic, this.gripSystem);
+  }
+
+  /**
+   * Record every grip and trick event
+   */
+  private recordEvents(): void {
+    for (const type of GripEventTypes) {
+      this.gripSystem.addEventListener(type, (event) => this.record("grip", type, event));
+    }
+    for (const type of BarspinEventTypes) {
+      this.barspinMechanic.addEventListener(type, (event) => this.record("barspin", type, event));
+    }
+    for (const type of TailwhipEventTypes) {
+      this.tailwhipMechanic.addEventListener(type, (event) => this.record("tailwhip", type, event));
+    }
+  }
+
+  private record(source: SimulationEventRecord["source"], type: string, event: object): void {
+    this.events.push({ time: this.clock.now(), frame: this.frame, source, type, event });
+  }
+
+  /**
+   * Run one frame in the same order as Context.onAnimate
+   */
+  step(deltaTime: number = 1 / 72): void {
+    this.frame++;
+    const simulationDeltaTime = this.clock.advance(deltaTime);
+    this.root.updateMatrixWorld(true);
+
+    this.gripSystem.update();
+    this.trickRegistry.update(simulationDeltaTime);
+    this.haptics.update();
+    this.scheduler.run();
+    this.scoreSystem.update();
+
+    this.updateBike();
+  }
+
+  /**
+   * Run several frames
+   */
+  run(frames: number, deltaTime: number = 1 / 72): void {
+    for (let i = 0; i < frames; i++) {
+      this.step(deltaTime);
+    }
+  }
+
+  /**
+   * Run frames until the given simulated time has passed (seconds)
+   */
+  runFor(seconds: number, deltaTime: number = 1 / 72): void {
+    this.run(Math.ceil(seconds / deltaTime), deltaTime);
+  }
+
+  /**
+   * World position of a grip marker (for placing scripted hands on it)
+   */
+  getGripWorldPosition(side: "left" | "right", target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    this.root.updateMatrixWorld(true);
+    const marker = side === "left" ? this.leftGripMarker : this.rightGripMarker;
+    return marker.getWorldPosition(target);
+  }
+
+  /**
+   * "source:type" of every recorded event, handy for comparing sequences
+   */
+  getEventSequence(): string[] {
+    return this.events.map((record) => `${record.source}:${record.type}`);
+  }
+
+  /**
+   * Spin the bars and frame the way Context does, without smoothing
+   */
+  private updateBike(): void {
+    const barspin = this.barspinMechanic;
+    if (barspin.isBarsFree()) {
+      this.handlebars.rotation.y = barspin.getBarAngle();
+    } else if (this.gripSystem.areBothHandsAttached()) {
+      const steering = THREE.MathUtils.clamp(this.gripSystem.calculateHandlebarRotation(), -Math.PI / 2, Math.PI / 2);
+      this.handlebars.rotation.y = barspin.barOrientation + steering;
+    } else {
+      this.handlebars.rotation.y = barspin.barOrientation;
+    }
+
+    this.bikeFrame.rotation.y = this.tailwhipMechanic.isFrameFree() ? this.tailwhipMechanic.getFrameAngle() : 0;
+  }
+}
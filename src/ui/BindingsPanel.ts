@@ -0,0 +1,277 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { Handedness } from "../utils/handInput";
+import { VRUIButton, VRUILabel, VRUIPanel, VRUISlider, VRUIToggle } from "./VRUIPanel";
+import { MIN_TIME_SCALE } from "../mechanics/MechanicsContext";
+import {
+  ActionLabels,
+  BindableButton,
+  BindableButtons,
+  BindableHandInput,
+  ButtonLabels,
+  InputAction,
+  InputBindings,
+  describeBinding,
+} from "../utils/inputBindings";
+
+/**
+ * BindingsPanel is the in-VR settings panel for the input bindings (and the sound volume, haptics strength,
+ * difficulty and practice mode).
+ * The menu action opens and closes it. Rows can be pointed at and clicked with the pointer
+ * ray (VRUIInteraction), or stepped through with the thumbstick and picked with the trigger;
+ * picking an action waits for the next button pressed (on either controller) and binds it.
+ * Menus always use the raw trigger and thumbstick, whatever the bindings are.
+ */
+export class BindingsPanel {
+  context: Context;
+  bindings: InputBindings;
+  panel: VRUIPanel;
+  isOpen: boolean = false;
+
+  // Display
+  position: THREE.Vector3 = new THREE.Vector3(0, 1.2, -0.7);
+
+  // Configuration
+  stickThreshold: number = 0.6; // Thumbstick deflection that moves one row
+
+  private actionButtons: Map<InputAction, VRUIButton> = new Map();
+  private gripModeToggle: VRUIToggle;
+  private volumeSlider: VRUISlider;
+  private hapticsSlider: VRUISlider;
+  private difficultyButton: VRUIButton;
+  private practiceToggle: VRUIToggle;
+  private speedSlider: VRUISlider;
+  private hardcoreToggle: VRUIToggle;
+  private listeningAction: InputAction | null = null; // Action waiting for a button press
+  private waitingForRelease: boolean = false; // Buttons still held from picking the row
+  private wasTriggerDown: boolean = false;
+  private wasStickMoved: boolean = false;
+
+  constructor(context: Context, bindings: InputBindings) {
+    this.context = context;
+    this.bindings = bindings;
+
+    this.panel = new VRUIPanel({ canvasWidth: 512, canvasHeight: 700, worldWidth: 0.6, background: "rgba(0, 0, 0, 0.75)" });
+    this.panel.add(new VRUILabel("Controls", { size: 40, bold: true }, 60));
+    this.addActionButton("grip");
+    this.gripModeToggle = this.panel.add(
+      new VRUIToggle("Toggle grip", bindings.gripMode === "toggle", (toggle) => bindings.setGripMode(toggle ? "toggle" : "hold"))
+    );
+    this.addActionButton("footCatch");
+    this.addActionButton("resetTrick");
+    this.addActionButton("recenter");
+    this.addActionButton("openMenu");
+    const audio = this.context.audioFeedback;
+    this.volumeSlider = this.panel.add(new VRUISlider("Volume", audio.volume, (volume) => audio.setVolume(volume)));
+    const haptics = this.context.haptics;
+    this.hapticsSlider = this.panel.add(new VRUISlider("Haptics", haptics.intensityScale, (scale) => haptics.setIntensityScale(scale)));
+    const difficulty = this.context.difficulty;
+    this.difficultyButton = this.panel.add(
+      new VRUIButton("Difficulty", () => {
+        difficulty.nextPreset();
+        this.difficultyButton.setDetail(difficulty.displayName);
+      })
+    );
+    const practice = this.context.practiceMode;
+    this.practiceToggle = this.panel.add(new VRUIToggle("Practice mode", practice.enabled, (enabled) => practice.setEnabled(enabled)));
+    this.speedSlider = this.panel.add(
+      new VRUISlider("", 0, (value) => {
+        practice.setTimeScale(MIN_TIME_SCALE + value * (1 - MIN_TIME_SCALE));
+        this.refreshPractice();
+      })
+    );
+    const catchIndicator = this.context.catchIndicator;
+    this.hardcoreToggle = this.panel.add(
+      new VRUIToggle("Hide catch cues", !catchIndicator.enabled, (hardcore) => catchIndicator.setEnabled(!hardcore))
+    );
+    this.panel.add(new VRUIButton("Reset to defaults", () => bindings.resetToDefaults()));
+    this.panel.add(
+      new VRUIButton("Run tutorial", () => {
+        this.close();
+        this.context.tutorialSystem.start();
+      })
+    );
+    this.panel.add(
+      new VRUIButton("Tuning", () => {
+        this.close();
+        this.context.tuningPanel.open();
+      })
+    );
+    this.panel.add(new VRUIButton("Close", () => this.close()));
+    this.panel.visible = false;
+
+    // Add to camera rig so it moves with player
+    this.panel.attachTo(this.context.cameraRig, this.position);
+    this.context.uiInteraction.addPanel(this.panel);
+
+    this.context.xrInput.onAction((action) => {
+      if (action === "openMenu" && !this.listeningAction) {
+        this.toggle();
+      }
+    });
+    this.bindings.onChange(() => this.refresh());
+
+    this.refreshPractice();
+    this.refresh();
+  }
+
+  open(): void {
+    // The menu action comes back here from the tuning panel
+    this.context.tuningPanel.close();
+    this.isOpen = true;
+    this.listeningAction = null;
+    this.panel.setFocus(null);
+    this.panel.moveFocus(1);
+    // Whatever opened the panel is still held
+    this.wasTriggerDown = true;
+    this.wasStickMoved = true;
+    this.panel.visible = true;
+    this.context.xrInput.setActionsEnabled(false);
+    this.volumeSlider.setValue(this.context.audioFeedback.volume);
+    this.hapticsSlider.setValue(this.context.haptics.intensityScale);
+    this.difficultyButton.setDetail(this.context.difficulty.displayName);
+    this.hardcoreToggle.setValue(!this.context.catchIndicator.enabled);
+    this.refreshPractice();
+    this.refresh();
+  }
+
+  close(): void {
+    this.isOpen = false;
+    this.listeningAction = null;
+    this.panel.visible = false;
+    this.context.xrInput.setActionsEnabled(true);
+  }
+
+  toggle(): void {
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Update method called each frame - reads the controllers while open
+   */
+  update(): void {
+    if (!this.isOpen) {
+      return;
+    }
+
+    const devices = this.getDevices();
+    if (this.listeningAction) {
+      this.updateListening(this.listeningAction, devices);
+    } else {
+      this.updateNavigation(devices);
+    }
+    this.panel.update();
+  }
+
+  private addActionButton(action: InputAction): void {
+    const button = this.panel.add(new VRUIButton(ActionLabels[action], () => this.startListening(action)));
+    this.actionButtons.set(action, button);
+  }
+
+  /**
+   * Thumbstick moves one row per push, the trigger presses the focused row.
+   * Controllers pointing at a panel are left to the pointer (it clicks what it points at).
+   */
+  private updateNavigation(devices: [Handedness, BindableHandInput][]): void {
+    const interaction = this.context.uiInteraction;
+    const navigating = devices.filter(([hand]) => !interaction.isPointingAtUI(hand));
+
+    let stickY = 0;
+    for (const [, device] of navigating) {
+      if (Math.abs(device.thumbStick.y) > Math.abs(stickY)) {
+        stickY = device.thumbStick.y;
+      }
+    }
+    const stickMoved = Math.abs(stickY) > this.stickThreshold;
+    if (stickMoved && !this.wasStickMoved) {
+      this.panel.moveFocus(stickY > 0 ? 1 : -1);
+    }
+    this.wasStickMoved = stickMoved;
+
+    // A press made while pointing stays the pointer's, even if the ray then leaves the panel
+    const triggerDown = devices.some(([, device]) => device.isButtonDown("trigger"));
+    if (triggerDown && !this.wasTriggerDown && navigating.some(([, device]) => device.isButtonDown("trigger"))) {
+      this.panel.activateFocused();
+    }
+    this.wasTriggerDown = triggerDown;
+  }
+
+  /**
+   * Controllers that are connected, with their hand
+   */
+  private getDevices(): [Handedness, BindableHandInput][] {
+    const devices: [Handedness, BindableHandInput][] = [];
+    for (const hand of ["left", "right"] as Handedness[]) {
+      const device = this.context.xrInput.getDevice(hand);
+      if (device) {
+        devices.push([hand, device]);
+      }
+    }
+    return devices;
+  }
+
+  private startListening(action: InputAction): void {
+    this.listeningAction = action;
+    this.waitingForRelease = true;
+    this.refresh();
+  }
+
+  /**
+   * Bind the next button pressed, once everything held when the row was picked is released
+   */
+  private updateListening(action: InputAction, devices: [Handedness, BindableHandInput][]): void {
+    let pressed: { hand: Handedness; button: BindableButton } | null = null;
+    let anyDown = false;
+    for (const [hand, device] of devices) {
+      for (const button of BindableButtons) {
+        if (device.isButtonDown(button)) {
+          anyDown = true;
+          pressed ??= { hand, button };
+        }
+      }
+    }
+
+    if (this.waitingForRelease) {
+      this.waitingForRelease = anyDown;
+      return;
+    }
+    if (!pressed) {
+      return;
+    }
+
+    this.listeningAction = null;
+    this.bindings.set(action, pressed);
+    // Don't let the new binding's press also pick a row
+    this.wasTriggerDown = true;
+  }
+
+  /**
+   * Show the practice settings (the slider runs over MIN_TIME_SCALE - 1x)
+   */
+  private refreshPractice(): void {
+    const practice = this.context.practiceMode;
+    this.practiceToggle.setValue(practice.enabled);
+    this.speedSlider.setValue((practice.timeScale - MIN_TIME_SCALE) / (1 - MIN_TIME_SCALE));
+    this.speedSlider.setLabel(`Speed ${practice.timeScale.toFixed(2)}x`);
+  }
+
+  /**
+   * Show the current bindings
+   */
+  private refresh(): void {
+    for (const [action, button] of this.actionButtons) {
+      if (action === this.listeningAction) {
+        button.setDetail("Press a button...", "#FFDD00");
+        continue;
+      }
+      const binding = this.bindings.get(action);
+      // Grip is on each hand's own controller, so only the button matters
+      button.setDetail(action === "grip" ? ButtonLabels[binding.button] : describeBinding(binding));
+    }
+    this.gripModeToggle.setValue(this.bindings.gripMode === "toggle");
+  }
+}
@@ -0,0 +1,151 @@
+import { Context } from "../context";
+import {
+  DEFAULT_DIFFICULTY,
+  Difficulty,
+  DifficultyPresetName,
+  DifficultyPresetNames,
+  DifficultyPresets,
+  DifficultyValues,
+  applyDifficultyPreset,
+  applyDifficultyValues,
+  getDifficultyValues,
+  isDifficultyPresetName,
+} from "../mechanics/DifficultyPresets";
+import { RecordedDifficulty } from "../utils/xrInputRecording";
+
+const DIFFICULTY_STORAGE_KEY = "bmxr.difficulty";
+const DIFFICULTY_URL_PARAM = "difficulty";
+
+/**
+ * DifficultySetting holds the active difficulty preset and applies it to the barspin and grips.
+ *
+ * A ?difficulty=beginner|standard|pro|hardcore URL parameter picks the preset for that visit;
+ * otherwise the one last chosen from the menu (saved in localStorage) is used.
+ * Tuning one of the preset's values by hand makes the difficulty "custom" until a preset is picked again.
+ * A replay plays at the difficulty it was recorded at (useRecorded), and the rider's comes back when it ends.
+ */
+export class DifficultySetting {
+  context: Context;
+  preset: DifficultyPresetName = DEFAULT_DIFFICULTY;
+  isCustom: boolean = false; // The preset's values have been tuned since it was applied
+
+  private replayed: { difficulty: RecordedDifficulty; riderValues: DifficultyValues } | null = null;
+
+  constructor(context: Context) {
+    this.context = context;
+    this.preset = this.loadFromUrl() ?? this.loadSaved() ?? DEFAULT_DIFFICULTY;
+    this.apply();
+
+    this.context.xrInput.onSourceChange(() => {
+      if (!this.context.xrInput.isReplaying()) {
+        this.endRecorded();
+      }
+    });
+  }
+
+  /**
+   * The preset in use, or "custom" once its values have been tuned (a replay's while one plays)
+   */
+  get current(): Difficulty {
+    if (this.replayed) {
+      return this.replayed.difficulty.name;
+    }
+    return this.isCustom ? "custom" : this.preset;
+  }
+
+  get displayName(): string {
+    const current = this.current;
+    return current === "custom" ? "Custom" : DifficultyPresets[current].displayName;
+  }
+
+  /**
+   * Play at a recording's difficulty (not saved) until the replay ends
+   */
+  useRecorded(difficulty: RecordedDifficulty): void {
+    const riderValues = this.replayed?.riderValues ?? getDifficultyValues(this.context.barspinMechanic, this.context.gripSystem);
+    this.replayed = { difficulty, riderValues };
+    applyDifficultyValues(difficulty.values, this.context.barspinMechanic, this.context.gripSystem);
+    console.log(`DifficultySetting: Replaying at ${this.displayName}`);
+  }
+
+  /**
+   * Note that one of the preset's values has been changed by hand
+   */
+  markCustom(): void {
+    if (this.isCustom) {
+      return;
+    }
+    this.isCustom = true;
+    console.log(`DifficultySetting: Custom (tuned from ${DifficultyPresets[this.preset].displayName})`);
+  }
+
+  /**
+   * Switch to a preset (and save it)
+   */
+  setPreset(preset: DifficultyPresetName): void {
+    this.replayed = null; // Picked over a replay's - nothing to go back to
+    this.preset = preset;
+    this.apply();
+    this.save();
+  }
+
+  /**
+   * Switch to the next harder preset, wrapping round to the easiest
+   */
+  nextPreset(): void {
+    const index = DifficultyPresetNames.indexOf(this.preset);
+    this.setPreset(DifficultyPresetNames[(index + 1) % DifficultyPresetNames.length]);
+  }
+
+  /**
+   * Back to the rider's difficulty (and any values they tuned) after a replay
+   */
+  private endRecorded(): void {
+    if (!this.replayed) {
+      return;
+    }
+    applyDifficultyValues(this.replayed.riderValues, this.context.barspinMechanic, this.context.gripSystem);
+    this.replayed = null;
+    console.log(`DifficultySetting: Back to ${this.displayName}`);
+  }
+
+  private apply(): void {
+    this.isCustom = false;
+    applyDifficultyPreset(this.preset, this.context.barspinMechanic, this.context.gripSystem);
+    console.log(`DifficultySetting: ${this.displayName}`);
+  }
+
+  private loadFromUrl(): DifficultyPresetName | null {
+    const value = new URLSearchParams(window.location.search).get(DIFFICULTY_URL_PARAM)?.toLowerCase();
+    if (value === undefined) {
+      return null;
+    }
+    if (!isDifficultyPresetName(value)) {
+      console.warn(`DifficultySetting: Unknown difficulty "${value}" (expected ${DifficultyPresetNames.join(", ")})`);
+      return null;
+    }
+    return value;
+  }
+
+  private loadSaved(): DifficultyPresetName | null {
+    try {
+      const json = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+      if (!json) {
+        return null;
+      }
+      const saved = JSON.parse(json) as { preset?: unknown };
+      return isDifficultyPresetName(saved.preset) ? saved.preset : null;
+    } catch (error) {
+      console.warn("DifficultySetting: Couldn't load the difficulty:", error);
+      return null;
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(DIFFICULTY_STORAGE_KEY, JSON.stringify({ preset: this.preset }));
+    } catch (error) {
+      console.warn("DifficultySetting: Couldn't save the difficulty:", error);
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import * as THREE from "three";
+import { Context } from "../context";
+
+// Working variables, prevents "new" allocations
+const __yAxis = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Motions the ghost hands can demonstrate (one per tutorial step)
+ */
+export type GhostDemo = "gripBoth" | "releaseRight" | "rotateLeft" | "releaseLeft" | "catch";
+
+/**
+ * Pose of one ghost hand at a point of a demo
+ */
+interface GhostPose {
+  away: number; // 0 = on its grip, 1 = clear of the bars
+  twist: number; // Rotation around the stem (radians)
+}
+
+/**
+ * GhostHands are two see-through hands at the handlebars that loop a short demonstration
+ * of a tutorial step (gripping, letting go, twisting the bars). They follow the bars'
+ * position but not their rotation, so the demo stays readable while the bars spin.
+ */
+export class GhostHands {
+  context: Context;
+  group: THREE.Group;
+
+  // Configuration
+  period: number = 2; // Length of one loop of a demo (s)
+  awayOffset: THREE.Vector3 = new THREE.Vector3(0.1, 0.12, 0.12); // Where a released hand rests, from its grip (mirrored for the left)
+
+  private left: THREE.Mesh;
+  private right: THREE.Mesh;
+  private demo: GhostDemo | null = null;
+  private startTime: number = 0;
+
+  constructor(context: Context) {
+    this.context = context;
+
+    const geometry = new THREE.CapsuleGeometry(0.025, 0.07, 4, 8);
+    const material = new THREE.MeshBasicMaterial({ color: 0x66ccff, transparent: true, opacity: 0.4, depthWrite: false });
+    this.left = new THREE.Mesh(geometry, material);
+    this.right = new THREE.Mesh(geometry, material);
+
+    this.group = new THREE.Group();
+    this.group.add(this.left, this.right);
+    this.group.visible = false;
+    this.context.cameraRig.add(this.group);
+  }
+
+  /**
+   * Loop a demo from its start
+   */
+  play(demo: GhostDemo): void {
+    this.demo = demo;
+    this.startTime = this.context.elapsedTime;
+  }
+
+  stop(): void {
+    this.demo = null;
+    this.group.visible = false;
+  }
+
+  /**
+   * Update method called each frame - animates the current demo
+   */
+  update(): void {
+    const handlebars = this.context.handlebars;
+    this.group.visible = !!this.demo && !!handlebars;
+    if (!this.demo || !handlebars) {
+      return;
+    }
+
+    this.group.position.copy(handlebars.position);
+    const t = ((this.context.elapsedTime - this.startTime) % this.period) / this.period;
+    const [left, right] = getDemoPoses(this.demo, t);
+    this.poseHand(this.left, "left", left);
+    this.poseHand(this.right, "right", right);
+
+    // Both hands pulse as they close on the grips to catch
+    const scale = this.demo === "catch" && t > 0.6 ? 1 + 0.3 * (1 - THREE.MathUtils.smoothstep(t, 0.6, 0.8)) : 1;
+    this.left.scale.setScalar(scale);
+    this.right.scale.setScalar(scale);
+  }
+
+  dispose(): void {
+    this.group.removeFromParent();
+    this.left.geometry.dispose();
+    (this.left.material as THREE.Material).dispose();
+  }
+
+  private poseHand(hand: THREE.Mesh, side: "left" | "right", pose: GhostPose): void {
+    const marker = side === "left" ? this.context.leftGripMarker : this.context.rightGripMarker;
+    const mirror = side === "left" ? -1 : 1;
+    if (marker) {
+      hand.position.copy(marker.position);
+    } else {
+      hand.position.set(0.3 * mirror, 0, 0);
+    }
+    hand.position.x += this.awayOffset.x * mirror * pose.away;
+    hand.position.y += this.awayOffset.y * pose.away;
+    hand.position.z += this.awayOffset.z * pose.away;
+    hand.position.applyAxisAngle(__yAxis, pose.twist);
+    // Capsule lies along the bar, like a fist around the grip
+    hand.rotation.set(0, pose.twist, Math.PI / 2);
+  }
+}
+
+/**
+ * Left and right hand poses at a point (0-1) of a demo's loop
+ */
+function getDemoPoses(demo: GhostDemo, t: number): [GhostPose, GhostPose] {
+  const smoothstep = THREE.MathUtils.smoothstep;
+  switch (demo) {
+    case "gripBoth": {
+      const away = 1 - smoothstep(t, 0.1, 0.6);
+      return [
+        { away, twist: 0 },
+        { away, twist: 0 },
+      ];
+    }
+    case "releaseRight":
+      return [
+        { away: 0, twist: 0 },
+        { away: smoothstep(t, 0.2, 0.6), twist: 0 },
+      ];
+    case "rotateLeft":
+      return [
+        { away: 0, twist: -0.8 * smoothstep(t, 0.1, 0.6) },
+        { away: 1, twist: 0 },
+      ];
+    case "releaseLeft":
+      return [
+        { away: smoothstep(t, 0.35, 0.7), twist: -0.8 * smoothstep(t, 0, 0.3) },
+        { away: 1, twist: 0 },
+      ];
+    case "catch": {
+      const away = 1 - smoothstep(t, 0.4, 0.6);
+      return [
+        { away, twist: 0 },
+        { away, twist: 0 },
+      ];
+    }
+  }
+}
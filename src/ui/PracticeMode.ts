@@ -0,0 +1,91 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { MIN_TIME_SCALE } from "../mechanics/MechanicsContext";
+
+const PRACTICE_SETTINGS_STORAGE_KEY = "bmxr.practice";
+
+/**
+ * Saved practice settings
+ */
+interface PracticeSettings {
+  enabled: boolean;
+  timeScale: number;
+}
+
+/**
+ * PracticeMode slows the simulation down (MIN_TIME_SCALE - 1x) and shows where the
+ * bars will be at the upcoming catch point: it keeps CatchIndicator's ghost bars on,
+ * even in hardcore mode.
+ *
+ * The time scale only applies while practice mode is on; Context hands it to the
+ * mechanics clock each frame. Tricks landed below 1x are scored as practice.
+ */
+export class PracticeMode {
+  context: Context;
+  enabled: boolean = false;
+  timeScale: number = 0.5; // Simulation speed while practicing
+
+  constructor(context: Context) {
+    this.context = context;
+
+    const settings = this.loadSettings();
+    this.enabled = settings.enabled;
+    this.timeScale = settings.timeScale;
+    this.context.catchIndicator.showGhost(this.enabled);
+  }
+
+  /**
+   * Simulation speed to run at (1 unless practicing)
+   */
+  get activeTimeScale(): number {
+    return this.enabled ? this.timeScale : 1;
+  }
+
+  /**
+   * Turn practice mode on or off (and save it)
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.context.catchIndicator.showGhost(enabled);
+    this.saveSettings();
+    console.log(`PracticeMode: ${enabled ? `On at ${this.timeScale.toFixed(2)}x` : "Off"}`);
+  }
+
+  /**
+   * Set the practice speed (MIN_TIME_SCALE - 1, and save it)
+   */
+  setTimeScale(timeScale: number): void {
+    this.timeScale = THREE.MathUtils.clamp(timeScale, MIN_TIME_SCALE, 1);
+    this.saveSettings();
+  }
+
+  /**
+   * Saved practice settings, or the defaults
+   */
+  private loadSettings(): PracticeSettings {
+    const defaults: PracticeSettings = { enabled: this.enabled, timeScale: this.timeScale };
+    try {
+      const json = localStorage.getItem(PRACTICE_SETTINGS_STORAGE_KEY);
+      if (!json) {
+        return defaults;
+      }
+      const saved = JSON.parse(json) as Partial<PracticeSettings>;
+      return {
+        enabled: typeof saved.enabled === "boolean" ? saved.enabled : defaults.enabled,
+        timeScale: typeof saved.timeScale === "number" ? THREE.MathUtils.clamp(saved.timeScale, MIN_TIME_SCALE, 1) : defaults.timeScale,
+      };
+    } catch (error) {
+      console.warn("PracticeMode: Couldn't load practice settings:", error);
+      return defaults;
+    }
+  }
+
+  private saveSettings(): void {
+    try {
+      const settings: PracticeSettings = { enabled: this.enabled, timeScale: this.timeScale };
+      localStorage.setItem(PRACTICE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn("PracticeMode: Couldn't save practice settings:", error);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { ScoreSystem, SessionSummary } from "../mechanics/ScoreSystem";
+import { VRUILabel, VRUIPanel, VRUIProgressBar } from "./VRUIPanel";
+
+/**
+ * ScoreHUD shows the score, the running combo and the last trick on a panel
+ * that rides along with the camera rig. After a session it shows the session summary
+ * on a second panel in the same place.
+ *
+ * Both are VRUIPanels, so they only redraw when a value changes; the combo timer bar
+ * moves in steps (comboTimerSteps) rather than every frame.
+ */
+export class ScoreHUD {
+  context: Context;
+  scoreSystem: ScoreSystem;
+
+  // Display
+  position: THREE.Vector3 = new THREE.Vector3(0.6, 0.3, -0.6);
+  comboTimerSteps: number = 50; // Positions the combo timer bar can show
+
+  private livePanel: VRUIPanel;
+  private scoreLabel: VRUILabel;
+  private comboLabel: VRUILabel;
+  private comboTimer: VRUIProgressBar;
+  private trickLabel: VRUILabel;
+  private bonusLabel: VRUILabel;
+
+  private summaryPanel: VRUIPanel;
+  private summaryTitle: VRUILabel;
+  private summaryLines: VRUILabel[] = [];
+
+  private summary: SessionSummary | null = null;
+  private isVisible: boolean = true;
+
+  constructor(context: Context, scoreSystem: ScoreSystem) {
+    this.context = context;
+    this.scoreSystem = scoreSystem;
+
+    const panelOptions = { canvasWidth: 512, canvasHeight: 256, worldWidth: 0.5, padding: 12, background: "rgba(0, 0, 0, 0.6)" };
+
+    this.livePanel = new VRUIPanel(panelOptions);
+    this.scoreLabel = this.livePanel.add(new VRUILabel("0", { size: 56, bold: true }, 64));
+    this.comboLabel = this.livePanel.add(new VRUILabel("", { size: 36, bold: true, color: "#FFDD00" }, 46));
+    this.comboTimer = this.livePanel.add(new VRUIProgressBar("#FFDD00", 12));
+    this.trickLabel = this.livePanel.add(new VRUILabel("", { size: 32, bold: true, color: "#00FFFF" }, 42));
+    this.bonusLabel = this.livePanel.add(new VRUILabel("", { size: 28, color: "#00FF88" }, 36));
+
+    this.summaryPanel = new VRUIPanel(panelOptions);
+    this.summaryTitle = this.summaryPanel.add(new VRUILabel("", { size: 44, bold: true }, 56));
+    for (let i = 0; i < 4; i++) {
+      this.summaryLines.push(this.summaryPanel.add(new VRUILabel("", { size: 28, color: "#CCCCCC" }, 38)));
+    }
+
+    // Add to camera rig so it moves with player
+    this.livePanel.attachTo(this.context.cameraRig, this.position);
+    this.summaryPanel.attachTo(this.context.cameraRig, this.position);
+
+    // Refresh whenever the score changes
+    const refresh = () => this.refreshLiveScore();
+    this.scoreSystem.addEventListener("trickScored", refresh);
+    this.scoreSystem.addEventListener("comboEnd", refresh);
+    this.scoreSystem.addEventListener("comboBroken", refresh);
+
+    this.refreshLiveScore();
+    this.updateVisibility();
+  }
+
+  /**
+   * Update method called each frame - moves the combo timer and redraws what changed
+   */
+  update(): void {
+    if (this.scoreSystem.combo > 0 && !this.summary) {
+      this.comboTimer.setValue(Math.ceil(this.scoreSystem.getComboTimeRemaining() * this.comboTimerSteps) / this.comboTimerSteps);
+    }
+    this.livePanel.update();
+    this.summaryPanel.update();
+  }
+
+  /**
+   * Show the session summary instead of the live score
+   */
+  showSessionSummary(summary: SessionSummary): void {
+    this.summary = summary;
+    this.refreshSummary(summary);
+    this.updateVisibility();
+  }
+
+  /**
+   * Go back to showing the live score
+   */
+  showLiveScore(): void {
+    this.summary = null;
+    this.refreshLiveScore();
+    this.updateVisibility();
+  }
+
+  /**
+   * Score, combo and last trick
+   */
+  private refreshLiveScore(): void {
+    const scoreSystem = this.scoreSystem;
+    this.scoreLabel.setText(scoreSystem.score.toString());
+
+    const comboRunning = scoreSystem.combo > 0;
+    this.comboLabel.setVisible(comboRunning);
+    this.comboTimer.setVisible(comboRunning);
+    if (comboRunning) {
+      this.comboLabel.setText(`Combo ${scoreSystem.combo}  x${scoreSystem.getComboMultiplier()}`);
+      this.comboTimer.setValue(scoreSystem.getComboTimeRemaining());
+    }
+
+    const lastTrick = scoreSystem.lastTrick;
+    this.trickLabel.setText(lastTrick ? `${lastTrick.displayName} +${lastTrick.points}${lastTrick.practice ? " (practice)" : ""}` : "");
+    this.bonusLabel.setText(lastTrick ? lastTrick.bonuses.join("  ") : "");
+  }
+
+  /**
+   * End of session stats
+   */
+  private refreshSummary(summary: SessionSummary): void {
+    const minutes = Math.floor(summary.duration / 60000);
+    const seconds = Math.floor((summary.duration % 60000) / 1000);
+    const lines = [
+      `Landed ${summary.tricksLanded}  Failed ${summary.tricksFailed}`,
+      `Best combo ${summary.bestCombo} (${summary.bestComboScore})`,
+      `Best trick ${summary.bestTrick ? `${summary.bestTrick.displayName} +${summary.bestTrick.points}` : "-"}`,
+      `Accuracy ${Math.round(summary.averageAccuracy * 100)}%  Time ${minutes}:${seconds.toString().padStart(2, "0")}`,
+    ];
+
+    this.summaryTitle.setText(`Session ${summary.totalScore}${summary.practice ? " (practice)" : ""}`);
+    lines.forEach((line, index) => this.summaryLines[index].setText(line));
+  }
+
+  private updateVisibility(): void {
+    this.livePanel.visible = this.isVisible && !this.summary;
+    this.summaryPanel.visible = this.isVisible && !!this.summary;
+  }
+
+  /**
+   * Show/hide the HUD
+   */
+  setVisible(visible: boolean): void {
+    this.isVisible = visible;
+    this.updateVisibility();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  dispose(): void {
+    this.livePanel.dispose();
+    this.summaryPanel.dispose();
+  }
+}
@@ -0,0 +1,123 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { TunableParameter, formatTuningValue } from "../utils/tuning";
+import { VRUIButton, VRUILabel, VRUIPanel, VRUISlider } from "./VRUIPanel";
+
+/**
+ * TuningPanel is the in-VR view of Tuning: a slider per parameter (over its min - max range),
+ * grouped like the desktop overlay, and buttons to copy the values to the clipboard as JSON
+ * or apply JSON from it. Opened from the settings panel; the menu action goes back to it.
+ * Used with the pointer rays (VRUIInteraction), scrolling with the thumbstick.
+ */
+export class TuningPanel {
+  context: Context;
+  panel: VRUIPanel;
+  isOpen: boolean = false;
+
+  // Display
+  position: THREE.Vector3 = new THREE.Vector3(0, 1.2, -0.7);
+
+  private sliders: Map<TunableParameter, VRUISlider> = new Map();
+  private statusLabel: VRUILabel;
+
+  constructor(context: Context) {
+    this.context = context;
+    const tuning = this.context.tuning;
+
+    // Wide enough for the longest field names beside their sliders
+    this.panel = new VRUIPanel({ canvasWidth: 1024, canvasHeight: 700, worldWidth: 0.9, background: "rgba(0, 0, 0, 0.75)" });
+    this.panel.add(new VRUILabel("Tuning", { size: 40, bold: true }, 60));
+    this.panel.add(new VRUIButton("Copy JSON to clipboard", () => this.exportToClipboard()));
+    this.panel.add(new VRUIButton("Import JSON from clipboard", () => this.importFromClipboard()));
+    this.statusLabel = this.panel.add(new VRUILabel("", { size: 24, color: "#CCCCCC" }));
+    this.statusLabel.setVisible(false);
+
+    let group = "";
+    for (const parameter of tuning.parameters) {
+      if (parameter.group !== group) {
+        group = parameter.group;
+        this.panel.add(new VRUILabel(group, { size: 28, bold: true, color: "#FFDD00" }));
+      }
+      const slider = this.panel.add(
+        new VRUISlider("", 0, (value) => {
+          tuning.setValue(parameter, THREE.MathUtils.lerp(parameter.min, parameter.max, value));
+        })
+      );
+      this.sliders.set(parameter, slider);
+    }
+    this.panel.add(new VRUIButton("Close", () => this.close()));
+    this.panel.visible = false;
+
+    // Add to camera rig so it moves with player
+    this.panel.attachTo(this.context.cameraRig, this.position);
+    this.context.uiInteraction.addPanel(this.panel);
+
+    tuning.onChange(() => this.refresh());
+    this.refresh();
+  }
+
+  open(): void {
+    this.isOpen = true;
+    this.panel.visible = true;
+    this.context.xrInput.setActionsEnabled(false);
+    this.setStatus("");
+    this.refresh(); // Presets may have changed values since
+  }
+
+  close(): void {
+    if (!this.isOpen) {
+      return;
+    }
+    this.isOpen = false;
+    this.panel.visible = false;
+    this.context.xrInput.setActionsEnabled(true);
+  }
+
+  /**
+   * Update method called each frame
+   */
+  update(): void {
+    if (this.isOpen) {
+      this.panel.update();
+    }
+  }
+
+  /**
+   * Show the live values
+   */
+  private refresh(): void {
+    for (const [parameter, slider] of this.sliders) {
+      const value = parameter.get();
+      slider.setValue(THREE.MathUtils.inverseLerp(parameter.min, parameter.max, value));
+      slider.setLabel(`${parameter.label} ${formatTuningValue(value)}`);
+    }
+  }
+
+  private async exportToClipboard(): Promise<void> {
+    const json = JSON.stringify(this.context.tuning.export(), null, 2);
+    console.log("TuningPanel: Exported tuning", json);
+    try {
+      await navigator.clipboard.writeText(json);
+      this.setStatus("Copied to clipboard");
+    } catch (error) {
+      console.warn("TuningPanel: Couldn't copy to the clipboard:", error);
+      this.setStatus("Couldn't copy - the JSON is in the console", true);
+    }
+  }
+
+  private async importFromClipboard(): Promise<void> {
+    try {
+      const applied = this.context.tuning.import(await navigator.clipboard.readText());
+      this.setStatus(`Imported ${applied} value(s)`);
+    } catch (error) {
+      console.warn("TuningPanel: Couldn't import from the clipboard:", error);
+      this.setStatus("Couldn't import - no tuning JSON on the clipboard", true);
+    }
+  }
+
+  private setStatus(status: string, isError: boolean = false): void {
+    this.statusLabel.setText(status);
+    this.statusLabel.setColor(isError ? "#FF6666" : "#CCCCCC");
+    this.statusLabel.setVisible(status !== "");
+  }
+}
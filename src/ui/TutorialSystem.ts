@@ -0,0 +1,314 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { BarspinEvent, BarspinFailureReason, BarspinState } from "../mechanics/BarspinMechanic";
+import { GhostDemo, GhostHands } from "./GhostHands";
+import { VRUIButton, VRUILabel, VRUIPanel, VRUIProgressBar } from "./VRUIPanel";
+
+const TUTORIAL_STORAGE_KEY = "bmxr.tutorial";
+
+/**
+ * Saved tutorial progress
+ */
+interface TutorialProgress {
+  completed: boolean; // Finished or skipped - the tutorial doesn't start by itself again
+  skipped: boolean;
+}
+
+export type TutorialStepId = "gripBoth" | "releaseRight" | "rotateLeft" | "releaseLeft" | "catch";
+
+interface TutorialStep {
+  id: TutorialStepId;
+  instruction: string;
+  detail: string;
+  demo: GhostDemo;
+}
+
+/**
+ * The barspin, one move at a time
+ */
+export const TutorialSteps: TutorialStep[] = [
+  { id: "gripBoth", instruction: "Grip both handles", detail: "Reach for the green grips and squeeze", demo: "gripBoth" },
+  { id: "releaseRight", instruction: "Release right handle", detail: "Keep holding on with your left hand", demo: "releaseRight" },
+  { id: "rotateLeft", instruction: "Rotate left hand", detail: "Twist the bars around the stem", demo: "rotateLeft" },
+  { id: "releaseLeft", instruction: "Release left handle", detail: "Let go mid-twist to throw the bars", demo: "releaseLeft" },
+  { id: "catch", instruction: "Press grip to catch", detail: "Grab each grip as it comes round", demo: "catch" },
+];
+
+/**
+ * What to try differently after a failed attempt
+ */
+const FailureHints: Record<BarspinFailureReason, string> = {
+  timeout: "Let go with your left hand sooner",
+  weakThrow: "Twist your left hand harder first",
+  stalled: "Throw faster - the bars ran out of spin",
+  missedCatch: "Grab as a grip swings past your hand",
+};
+
+/**
+ * TutorialSystem walks new riders through a barspin, one move per step, with the
+ * instruction on a panel and ghost hands demonstrating the move at the handlebars.
+ *
+ * Steps advance on the real GripSystem and BarspinMechanic events (and the barspin's
+ * wrist tracking for the twist), so the tutorial never gets ahead of what the rider did.
+ * A failed barspin goes back to the first step with a hint for the next try.
+ * Finishing or skipping is saved in localStorage, so the tutorial only starts by itself
+ * until then; start() runs it again.
+ */
+export class TutorialSystem {
+  context: Context;
+  panel: VRUIPanel;
+  ghostHands: GhostHands;
+  active: boolean = false;
+  stepIndex: number = 0;
+  attempts: number = 0; // Barspins tried in this run of the tutorial
+  progress: TutorialProgress;
+
+  // Display
+  position: THREE.Vector3 = new THREE.Vector3(-0.55, 1.35, -0.75);
+
+  // Configuration
+  completeDisplayTime: number = 3; // How long "Tutorial complete" stays up (s)
+
+  private stepLabel: VRUILabel;
+  private instructionLabel: VRUILabel;
+  private detailLabel: VRUILabel;
+  private hintLabel: VRUILabel;
+  private progressBar: VRUIProgressBar;
+  private skipButton: VRUIButton;
+  private hideTime: number | null = null; // When to hide the panel after finishing
+
+  constructor(context: Context) {
+    this.context = context;
+    this.progress = this.loadProgress();
+
+    this.panel = new VRUIPanel({ canvasWidth: 512, canvasHeight: 320, worldWidth: 0.6, background: "rgba(0, 0, 0, 0.75)" });
+    this.stepLabel = this.panel.add(new VRUILabel("", { size: 26, color: "#FFDD00" }));
+    this.instructionLabel = this.panel.add(new VRUILabel("", { size: 40, bold: true }));
+    this.detailLabel = this.panel.add(new VRUILabel("", { size: 24, color: "#CCCCCC" }));
+    this.hintLabel = this.panel.add(new VRUILabel("", { size: 24, color: "#FF9900" }));
+    this.progressBar = this.panel.add(new VRUIProgressBar("#00FF00", 16));
+    this.skipButton = this.panel.add(new VRUIButton("Skip tutorial", () => this.skip()));
+    this.panel.visible = false;
+
+    // Add to camera rig so it moves with player
+    this.panel.attachTo(this.context.cameraRig, this.position);
+    this.context.uiInteraction.addPanel(this.panel);
+
+    this.ghostHands = new GhostHands(context);
+
+    this.listenForEvents();
+
+    if (!this.progress.completed) {
+      this.start();
+    }
+  }
+
+  get currentStep(): TutorialStep {
+    return TutorialSteps[this.stepIndex];
+  }
+
+  /**
+   * Run the tutorial from the first step
+   */
+  start(): void {
+    this.active = true;
+    this.attempts = 0;
+    this.hideTime = null;
+    this.panel.visible = true;
+    this.skipButton.setVisible(true);
+    console.log("TutorialSystem: Started");
+    this.setStep(0);
+  }
+
+  /**
+   * Leave the tutorial and don't start it again by itself
+   */
+  skip(): void {
+    if (!this.active) {
+      return;
+    }
+    console.log(`TutorialSystem: Skipped at ${this.currentStep.id}`);
+    this.active = false;
+    this.panel.visible = false;
+    this.ghostHands.stop();
+    this.saveProgress({ completed: true, skipped: true });
+  }
+
+  /**
+   * Update method called each frame - watches the twist, animates the ghost hands and the panel
+   */
+  update(): void {
+    if (this.hideTime !== null && this.context.elapsedTime >= this.hideTime) {
+      this.hideTime = null;
+      this.panel.visible = false;
+    }
+
+    if (this.active && this.currentStep.id === "rotateLeft") {
+      // The twist isn't an event - it's the barspin's wrist tracking reaching a throw
+      const barspin = this.context.barspinMechanic;
+      if (barspin.state === BarspinState.INITIATED && Math.abs(barspin.peakAngularVelocity) >= barspin.config.minRotationVelocity) {
+        this.advance();
+      }
+    }
+
+    this.ghostHands.update();
+    this.panel.update();
+  }
+
+  private listenForEvents(): void {
+    this.context.gripSystem.addEventListener("gripStart", () => {
+      if (this.isAtStep("gripBoth") && this.context.gripSystem.areBothHandsAttached()) {
+        this.advance();
+      }
+    });
+
+    const barspin = this.context.barspinMechanic;
+    barspin.addEventListener("initiated", (event) => this.onInitiated(event));
+    barspin.addEventListener("spinning", () => {
+      // A quick throw can twist and let go in the same moment
+      if (this.isAtStep("rotateLeft") || this.isAtStep("releaseLeft")) {
+        this.setStep(TutorialSteps.findIndex((step) => step.id === "catch"));
+      }
+    });
+    barspin.addEventListener("stateChange", (event) => this.onBarspinStateChange(event));
+    barspin.addEventListener("catchMissed", (event) => {
+      if (this.isAtStep("catch")) {
+        this.setHint((event.timingError ?? 0) < 0 ? "Too early - wait for the grip" : "Too late - grab sooner");
+      }
+    });
+    barspin.addEventListener("success", () => this.onSuccess());
+    barspin.addEventListener("failed", (event) => this.onFailed(event));
+  }
+
+  private onInitiated(event: BarspinEvent): void {
+    if (!this.isAtStep("releaseRight")) {
+      return;
+    }
+    if (event.hand === "right") {
+      this.advance();
+    } else {
+      this.setHint("Let go with your right hand first");
+    }
+  }
+
+  /**
+   * Re-gripping before the throw cancels the barspin - go back to letting go.
+   * Resetting the trick mid-spin starts over.
+   */
+  private onBarspinStateChange(event: BarspinEvent): void {
+    if (!this.active || event.currentState !== BarspinState.READY) {
+      return;
+    }
+    if (this.isAtStep("catch") && (event.previousState === BarspinState.SPINNING || event.previousState === BarspinState.CATCH_WINDOW)) {
+      this.setStep(0);
+      this.setHint("Trick reset - start again");
+      return;
+    }
+    if (event.previousState !== BarspinState.INITIATED) {
+      return;
+    }
+    if (this.isAtStep("rotateLeft") || this.isAtStep("releaseLeft")) {
+      this.setStep(TutorialSteps.findIndex((step) => step.id === "releaseRight"));
+      this.setHint("Keep your right hand off until the throw");
+    }
+  }
+
+  private onSuccess(): void {
+    if (!this.active) {
+      return;
+    }
+    if (!this.isAtStep("catch")) {
+      // Landed, but not the way the steps go - start over
+      this.attempts++;
+      this.setStep(0);
+      this.setHint("Nice! Now try it step by step");
+      return;
+    }
+
+    console.log(`TutorialSystem: Completed after ${this.attempts + 1} attempt(s)`);
+    this.active = false;
+    this.ghostHands.stop();
+    this.stepLabel.setText("Tutorial complete");
+    this.instructionLabel.setText("Barspin landed!");
+    this.detailLabel.setText("Run it again from the menu");
+    this.setHint("");
+    this.progressBar.setValue(1);
+    this.skipButton.setVisible(false);
+    this.hideTime = this.context.elapsedTime + this.completeDisplayTime;
+    this.saveProgress({ completed: true, skipped: false });
+  }
+
+  /**
+   * Try again from the top, with a hint for what went wrong
+   */
+  private onFailed(event: BarspinEvent): void {
+    if (!this.active) {
+      return;
+    }
+    this.attempts++;
+    console.log(`TutorialSystem: Attempt ${this.attempts} failed (${event.reason ?? "unknown"})`);
+    this.setStep(0);
+    this.setHint(event.reason ? FailureHints[event.reason] : "Try again");
+  }
+
+  private isAtStep(id: TutorialStepId): boolean {
+    return this.active && this.currentStep.id === id;
+  }
+
+  private advance(): void {
+    this.setStep(this.stepIndex + 1);
+  }
+
+  private setStep(index: number): void {
+    this.stepIndex = index;
+    const step = this.currentStep;
+    console.log(`TutorialSystem: Step ${step.id}`);
+
+    this.stepLabel.setText(`Step ${index + 1}/${TutorialSteps.length}` + (this.attempts > 0 ? ` - try ${this.attempts + 1}` : ""));
+    this.instructionLabel.setText(step.instruction);
+    this.detailLabel.setText(step.detail);
+    this.setHint("");
+    this.progressBar.setValue(index / TutorialSteps.length);
+    this.ghostHands.play(step.demo);
+
+    // Already holding both grips (e.g. started again mid-ride)
+    if (step.id === "gripBoth" && this.context.gripSystem.areBothHandsAttached()) {
+      this.advance();
+    }
+  }
+
+  private setHint(hint: string): void {
+    this.hintLabel.setText(hint);
+    this.hintLabel.setVisible(hint !== "");
+  }
+
+  /**
+   * Saved progress, or a fresh start
+   */
+  private loadProgress(): TutorialProgress {
+    const defaults: TutorialProgress = { completed: false, skipped: false };
+    try {
+      const json = localStorage.getItem(TUTORIAL_STORAGE_KEY);
+      if (!json) {
+        return defaults;
+      }
+      const saved = JSON.parse(json) as Partial<TutorialProgress>;
+      return {
+        completed: typeof saved.completed === "boolean" ? saved.completed : defaults.completed,
+        skipped: typeof saved.skipped === "boolean" ? saved.skipped : defaults.skipped,
+      };
+    } catch (error) {
+      console.warn("TutorialSystem: Couldn't load tutorial progress:", error);
+      return defaults;
+    }
+  }
+
+  private saveProgress(progress: TutorialProgress): void {
+    this.progress = progress;
+    try {
+      localStorage.setItem(TUTORIAL_STORAGE_KEY, JSON.stringify(progress));
+    } catch (error) {
+      console.warn("TutorialSystem: Couldn't save tutorial progress:", error);
+    }
+  }
+}
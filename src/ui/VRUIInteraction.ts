@@ -0,0 +1,157 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { Handedness } from "../utils/handInput";
+import { VRUIHit, VRUIPanel, VRUISlider } from "./VRUIPanel";
+
+// Working variables, prevents "new" allocations
+const __direction = new THREE.Vector3();
+
+/**
+ * What a hand's pointer is doing
+ */
+interface PointerState {
+  panel: VRUIPanel | null; // Panel the ray hits this frame
+  hit: VRUIHit | null;
+  dragging: VRUISlider | null; // Slider grabbed with select, followed until select is released
+  wasSelect: boolean;
+}
+
+/**
+ * VRUIInteraction lets the controller pointers use VR UI panels. Each hand's ray
+ * (pointerWOrigin / pointerWDirection) is cast against the registered panels:
+ * the element under the ray is focused (hover), pressing select clicks it, holding
+ * select on a slider drags it and the thumbstick scrolls a panel taller than its canvas.
+ *
+ * The pointer ray is cut short at the panel it hits, and hidden while its hand is
+ * attached to a grip. Menus always use the raw select and thumbstick, whatever the bindings are.
+ */
+export class VRUIInteraction {
+  context: Context;
+  panels: VRUIPanel[] = [];
+
+  // Configuration
+  maxDistance: number = 3; // Furthest a panel can be pointed at (m)
+  scrollSpeed: number = 600; // Scroll speed with the thumbstick fully pushed (px/s)
+  scrollDeadzone: number = 0.2; // Thumbstick deflection ignored for scrolling
+
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private pointers: Record<Handedness, PointerState> = {
+    left: createPointerState(),
+    right: createPointerState(),
+  };
+
+  constructor(context: Context) {
+    this.context = context;
+  }
+
+  /**
+   * Make a panel usable with the pointers
+   */
+  addPanel(panel: VRUIPanel): void {
+    if (!this.panels.includes(panel)) {
+      this.panels.push(panel);
+    }
+  }
+
+  removePanel(panel: VRUIPanel): void {
+    this.panels = this.panels.filter((registered) => registered !== panel);
+  }
+
+  /**
+   * Check if a hand's pointer is on a panel (e.g. so a menu doesn't also handle its select)
+   */
+  isPointingAtUI(hand: Handedness): boolean {
+    return this.pointers[hand].panel !== null;
+  }
+
+  /**
+   * Update method called each frame - after the grips, so attached hands hide their pointer
+   */
+  update(deltaTime: number): void {
+    this.updatePointer("left", deltaTime);
+    this.updatePointer("right", deltaTime);
+  }
+
+  private updatePointer(hand: Handedness, deltaTime: number): void {
+    const state = this.pointers[hand];
+    const device = this.context.xrInput.getDevice(hand);
+    const pointer = this.context.xrInput.getPointer(hand);
+    state.panel = null;
+    state.hit = null;
+
+    if (!device || !device.pointerActive || this.context.gripSystem.isHandAttached(hand)) {
+      pointer.visible = false;
+      state.dragging = null;
+      state.wasSelect = !!device?.select;
+      return;
+    }
+
+    const intersection = this.raycast(device.pointerWOrigin, device.pointerWDirection);
+    if (intersection?.uv) {
+      state.panel = this.panels.find((panel) => panel.object === intersection.object) ?? null;
+      state.hit = state.panel?.hitTest(intersection.uv) ?? null;
+      // Ray ends at the panel
+      pointer.setFromDir(device.pointerWOrigin, device.pointerWDirection, intersection.distance);
+    }
+
+    const select = device.select;
+    const pressed = select && !state.wasSelect;
+    state.wasSelect = select;
+    if (!select) {
+      state.dragging = null;
+    }
+
+    if (state.dragging) {
+      // Keep dragging while the ray is anywhere on the slider's panel
+      if (state.hit && state.panel === state.dragging.panel) {
+        state.dragging.setValueAt(state.hit.x);
+      }
+      return;
+    }
+
+    if (!state.panel || !state.hit) {
+      return;
+    }
+
+    // Hover
+    const element = state.hit.element;
+    if (element) {
+      state.panel.setFocus(element);
+    }
+
+    if (pressed && element) {
+      if (element instanceof VRUISlider) {
+        state.dragging = element;
+        element.setValueAt(state.hit.x);
+      } else {
+        element.activate();
+      }
+    }
+
+    const stickY = device.thumbStick.y;
+    if (state.panel.isScrollable() && Math.abs(stickY) > this.scrollDeadzone) {
+      state.panel.scrollBy(stickY * this.scrollSpeed * deltaTime);
+    }
+  }
+
+  /**
+   * Nearest visible panel along a ray
+   */
+  private raycast(origin: THREE.Vector3, direction: THREE.Vector3): THREE.Intersection | null {
+    const objects = this.panels.filter((panel) => panel.object.visible && panel.object.parent).map((panel) => panel.object);
+    if (objects.length === 0) {
+      return null;
+    }
+
+    const xr = this.context.renderer.xr;
+    this.raycaster.set(origin, __direction.copy(direction).normalize()); // Tracked hands' direction is smoothed, not unit length
+    this.raycaster.far = this.maxDistance;
+    // Sprites face the camera, so raycasting them needs it
+    this.raycaster.camera = xr.isPresenting ? xr.getCamera() : this.context.camera;
+    return this.raycaster.intersectObjects(objects, false)[0] ?? null;
+  }
+}
+
+function createPointerState(): PointerState {
+  return { panel: null, hit: null, dragging: null, wasSelect: false };
+}
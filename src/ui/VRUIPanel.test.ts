@@ -0,0 +1,74 @@
+import * as THREE from "three";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ScriptedInputProvider } from "../simulation/HeadlessSimulation";
+import { VRUILabel, VRUIPanel } from "./VRUIPanel";
+
+/**
+ * A panel attached to the left wrist, with a label to change
+ */
+function createWristPanel(): { panel: VRUIPanel; label: VRUILabel; input: ScriptedInputProvider; scene: THREE.Scene } {
+  const scene = new THREE.Scene();
+  const input = new ScriptedInputProvider();
+  const panel = new VRUIPanel();
+  const label = panel.add(new VRUILabel("Hello"));
+  panel.attachToWrist(scene, input, "left", new THREE.Vector3(0, 0.05, 0));
+  return { panel, label, input, scene };
+}
+
+describe("VRUIPanel", () => {
+  beforeEach(() => {
+    // No DOM here: a canvas whose 2D context ignores every drawing call
+    const canvasContext = new Proxy({}, { get: () => () => {} });
+    vi.stubGlobal("document", { createElement: () => ({ width: 0, height: 0, getContext: () => canvasContext }) });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("follows the wrist it's attached to", () => {
+    const { panel, input } = createWristPanel();
+    input.left!.wristWPos.set(0.2, 1, -0.3);
+    panel.update();
+
+    expect(panel.object.position.toArray()).toEqual([0.2, 1.05, -0.3]);
+    expect(panel.object.visible).toBe(true);
+  });
+
+  it("hides while the wrist isn't tracked and comes back when it is", () => {
+    const { panel, input } = createWristPanel();
+    input.left!.isTracked = false;
+    panel.update();
+    expect(panel.object.visible).toBe(false);
+    expect(panel.visible).toBe(true);
+
+    input.left!.isTracked = true;
+    panel.update();
+    expect(panel.object.visible).toBe(true);
+  });
+
+  it("stays hidden on the wrist when its owner hides it", () => {
+    const { panel } = createWristPanel();
+    panel.visible = false;
+    panel.update();
+    panel.update();
+
+    expect(panel.object.visible).toBe(false);
+  });
+
+  it("only re-uploads the texture when something changed", () => {
+    const { panel, label } = createWristPanel();
+    const texture = (panel.object.material as THREE.SpriteMaterial).map!;
+    panel.update();
+    const drawnVersion = texture.version;
+
+    panel.update();
+    label.setText("Hello");
+    panel.update();
+    expect(texture.version).toBe(drawnVersion);
+
+    label.setText("Bye");
+    panel.update();
+    expect(texture.version).toBe(drawnVersion + 1);
+  });
+});
@@ -0,0 +1,628 @@
+import * as THREE from "three";
+import type { Handedness } from "../utils/handInput";
+import type { MechanicsInputProvider } from "../mechanics/MechanicsContext";
+
+// Working variables, prevents "new" allocations
+const __wristOffset = new THREE.Vector3();
+
+/**
+ * Where an element sits on its panel's canvas (pixels, set by the panel's layout)
+ */
+export interface VRUIRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VRUIFont {
+  size: number; // px
+  bold?: boolean;
+  color?: string;
+  align?: "left" | "center" | "right";
+}
+
+/**
+ * Something drawn on a panel: a row of the panel's vertical layout
+ */
+export abstract class VRUIElement {
+  panel: VRUIPanel | null = null;
+  rect: VRUIRect = { x: 0, y: 0, width: 0, height: 0 };
+  readonly height: number; // Row height (px)
+  readonly interactive: boolean = false; // Can be focused and activated (buttons, toggles, sliders)
+  private _visible: boolean = true;
+
+  constructor(height: number) {
+    this.height = height;
+  }
+
+  get visible(): boolean {
+    return this._visible;
+  }
+
+  /**
+   * Hidden elements keep their row, so the rest of the layout doesn't jump
+   */
+  setVisible(visible: boolean): void {
+    if (visible !== this._visible) {
+      this._visible = visible;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Press the element (buttons and toggles)
+   */
+  activate(): void {}
+
+  protected markDirty(): void {
+    this.panel?.markDirty();
+  }
+
+  /**
+   * Draw into the element's rect
+   */
+  abstract draw(ctx: CanvasRenderingContext2D, focused: boolean): void;
+}
+
+/**
+ * A line of text
+ */
+export class VRUILabel extends VRUIElement {
+  private text: string;
+  private font: Required<VRUIFont>;
+
+  constructor(text: string, font: VRUIFont = { size: 28 }, height: number = Math.ceil(font.size * 1.4)) {
+    super(height);
+    this.text = text;
+    this.font = { bold: false, color: "#FFFFFF", align: "left", ...font };
+  }
+
+  setText(text: string): void {
+    if (text !== this.text) {
+      this.text = text;
+      this.markDirty();
+    }
+  }
+
+  setColor(color: string): void {
+    if (color !== this.font.color) {
+      this.font.color = color;
+      this.markDirty();
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    const { x, y, width, height } = this.rect;
+    ctx.font = `${this.font.bold ? "bold " : ""}${this.font.size}px Arial`;
+    ctx.fillStyle = this.font.color;
+    ctx.textAlign = this.font.align;
+    ctx.textBaseline = "middle";
+    const textX = this.font.align === "left" ? x : this.font.align === "right" ? x + width : x + width / 2;
+    ctx.fillText(this.text, textX, y + height / 2);
+  }
+}
+
+/**
+ * A horizontal bar filled to a value (0-1)
+ */
+export class VRUIProgressBar extends VRUIElement {
+  private value: number = 0;
+  private color: string;
+
+  constructor(color: string = "#FFFFFF", height: number = 20) {
+    super(height);
+    this.color = color;
+  }
+
+  setValue(value: number): void {
+    const clamped = THREE.MathUtils.clamp(value, 0, 1);
+    if (clamped !== this.value) {
+      this.value = clamped;
+      this.markDirty();
+    }
+  }
+
+  setColor(color: string): void {
+    if (color !== this.color) {
+      this.color = color;
+      this.markDirty();
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    const { x, y, width, height } = this.rect;
+
+    // Background bar
+    ctx.fillStyle = "#333333";
+    ctx.fillRect(x, y, width, height);
+
+    // Progress bar
+    ctx.fillStyle = this.color;
+    ctx.fillRect(x, y, width * this.value, height);
+
+    // Border
+    ctx.strokeStyle = "#FFFFFF";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, width, height);
+  }
+}
+
+/**
+ * A pressable row: a label on the left and an optional detail (e.g. the current setting) on the right
+ */
+export class VRUIButton extends VRUIElement {
+  readonly interactive = true;
+  onClick: () => void;
+  private label: string;
+  private detail: string;
+  private detailColor: string = "#00FFFF";
+
+  constructor(label: string, onClick: () => void, detail: string = "", height: number = 54) {
+    super(height);
+    this.label = label;
+    this.onClick = onClick;
+    this.detail = detail;
+  }
+
+  setLabel(label: string): void {
+    if (label !== this.label) {
+      this.label = label;
+      this.markDirty();
+    }
+  }
+
+  setDetail(detail: string, color: string = "#00FFFF"): void {
+    if (detail !== this.detail || color !== this.detailColor) {
+      this.detail = detail;
+      this.detailColor = color;
+      this.markDirty();
+    }
+  }
+
+  activate(): void {
+    this.onClick();
+  }
+
+  draw(ctx: CanvasRenderingContext2D, focused: boolean): void {
+    drawRow(ctx, this.rect, focused, this.label);
+    const { x, y, width, height } = this.rect;
+    ctx.textAlign = "right";
+    ctx.fillStyle = this.detailColor;
+    ctx.fillText(this.detail, x + width - 10, y + height / 2);
+  }
+}
+
+/**
+ * An on/off switch row
+ */
+export class VRUIToggle extends VRUIElement {
+  readonly interactive = true;
+  onChange: (value: boolean) => void;
+  private label: string;
+  private value: boolean;
+
+  constructor(label: string, value: boolean, onChange: (value: boolean) => void, height: number = 54) {
+    super(height);
+    this.label = label;
+    this.value = value;
+    this.onChange = onChange;
+  }
+
+  get checked(): boolean {
+    return this.value;
+  }
+
+  /**
+   * Set the value without calling onChange (e.g. to show a setting changed elsewhere)
+   */
+  setValue(value: boolean): void {
+    if (value !== this.value) {
+      this.value = value;
+      this.markDirty();
+    }
+  }
+
+  activate(): void {
+    this.setValue(!this.value);
+    this.onChange(this.value);
+  }
+
+  draw(ctx: CanvasRenderingContext2D, focused: boolean): void {
+    drawRow(ctx, this.rect, focused, this.label);
+
+    // Switch: a track with the knob at the right when on
+    const { x, y, width, height } = this.rect;
+    const trackWidth = 64;
+    const trackHeight = 30;
+    const trackX = x + width - 10 - trackWidth;
+    const centerY = y + height / 2;
+    ctx.fillStyle = this.value ? "#00CC66" : "#555555";
+    ctx.beginPath();
+    ctx.roundRect(trackX, centerY - trackHeight / 2, trackWidth, trackHeight, trackHeight / 2);
+    ctx.fill();
+    ctx.fillStyle = "#FFFFFF";
+    ctx.beginPath();
+    ctx.arc(this.value ? trackX + trackWidth - trackHeight / 2 : trackX + trackHeight / 2, centerY, trackHeight / 2 - 3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+/**
+ * A draggable value (0-1): a label on the left and a track on the right
+ */
+export class VRUISlider extends VRUIElement {
+  readonly interactive = true;
+  onChange: (value: number) => void;
+  private label: string;
+  private value: number;
+
+  constructor(label: string, value: number, onChange: (value: number) => void, height: number = 54) {
+    super(height);
+    this.label = label;
+    this.value = THREE.MathUtils.clamp(value, 0, 1);
+    this.onChange = onChange;
+  }
+
+  get currentValue(): number {
+    return this.value;
+  }
+
+  setLabel(label: string): void {
+    if (label !== this.label) {
+      this.label = label;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Set the value without calling onChange (e.g. to show a setting changed elsewhere)
+   */
+  setValue(value: number): void {
+    const clamped = THREE.MathUtils.clamp(value, 0, 1);
+    if (clamped !== this.value) {
+      this.value = clamped;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Move the knob to a canvas x position (dragging) and report the new value
+   */
+  setValueAt(x: number): void {
+    const track = this.getTrack();
+    const previous = this.value;
+    this.setValue((x - track.x) / track.width);
+    if (this.value !== previous) {
+      this.onChange(this.value);
+    }
+  }
+
+  draw(ctx: CanvasRenderingContext2D, focused: boolean): void {
+    drawRow(ctx, this.rect, focused, this.label);
+
+    const track = this.getTrack();
+    const centerY = this.rect.y + this.rect.height / 2;
+    ctx.fillStyle = "#555555";
+    ctx.fillRect(track.x, centerY - 4, track.width, 8);
+    ctx.fillStyle = "#00FFFF";
+    ctx.fillRect(track.x, centerY - 4, track.width * this.value, 8);
+    ctx.fillStyle = "#FFFFFF";
+    ctx.beginPath();
+    ctx.arc(track.x + track.width * this.value, centerY, 12, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  private getTrack(): { x: number; width: number } {
+    const { x, width } = this.rect;
+    return { x: x + width * 0.45, width: width * 0.55 - 24 };
+  }
+}
+
+/**
+ * Where a ray hit a panel: the element under it (if any) and the point in canvas pixels
+ */
+export interface VRUIHit {
+  element: VRUIElement | null;
+  x: number;
+  y: number; // Layout coordinates (includes the scroll)
+}
+
+/**
+ * Focus highlight and label shared by buttons, toggles and sliders
+ */
+function drawRow(ctx: CanvasRenderingContext2D, rect: VRUIRect, focused: boolean, label: string): void {
+  const { x, y, width, height } = rect;
+  if (focused) {
+    ctx.fillStyle = "rgba(255, 221, 0, 0.3)";
+    ctx.fillRect(x, y, width, height);
+  }
+  ctx.font = "28px Arial";
+  ctx.fillStyle = "#FFFFFF";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, x + 10, y + height / 2);
+}
+
+export interface VRUIPanelOptions {
+  canvasWidth?: number; // px
+  canvasHeight?: number; // px
+  worldWidth?: number; // Width in the scene (m); the height follows the canvas aspect
+  padding?: number; // Space around the layout (px)
+  gap?: number; // Space between rows (px)
+  background?: string;
+  billboard?: boolean; // Always face the camera (sprite) instead of a flat plane
+}
+
+/**
+ * VRUIPanel is a canvas-textured panel for in-world UI: labels, progress bars, buttons,
+ * toggles and sliders stacked top to bottom.
+ *
+ * Changing an element marks the panel dirty; update() (called by the panel's owner each
+ * frame) only redraws and re-uploads the texture when something changed.
+ * Panels can ride on the camera rig or sit in the world (attachTo), or follow a wrist (attachToWrist).
+ * Elements past the bottom of the canvas can be scrolled to (scrollBy); VRUIInteraction
+ * drives panels with the controller pointers.
+ */
+export class VRUIPanel {
+  readonly object: THREE.Sprite | THREE.Mesh;
+  readonly elements: VRUIElement[] = [];
+  focusIndex: number = -1; // Focused interactive element (index into elements), -1 for none
+  scrollY: number = 0; // How far the layout is scrolled up (px)
+
+  private canvas: HTMLCanvasElement;
+  private canvasContext: CanvasRenderingContext2D | null;
+  private texture: THREE.CanvasTexture;
+  private padding: number;
+  private gap: number;
+  private background: string;
+  private dirty: boolean = true;
+  private contentHeight: number = 0;
+  private wrist: { input: MechanicsInputProvider; hand: Handedness; offset: THREE.Vector3 } | null = null;
+  private shown: boolean = true; // The owner's visible
+  private wristTracked: boolean = true; // Hidden while the wrist it follows isn't tracked
+
+  constructor(options: VRUIPanelOptions = {}) {
+    const canvasWidth = options.canvasWidth ?? 512;
+    const canvasHeight = options.canvasHeight ?? 256;
+    const worldWidth = options.worldWidth ?? 0.5;
+    this.padding = options.padding ?? 20;
+    this.gap = options.gap ?? 6;
+    this.background = options.background ?? "rgba(0, 0, 0, 0.7)";
+
+    // Create canvas for the panel
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = canvasWidth;
+    this.canvas.height = canvasHeight;
+    this.canvasContext = this.canvas.getContext("2d");
+    this.texture = new THREE.CanvasTexture(this.canvas);
+
+    const worldHeight = (worldWidth * canvasHeight) / canvasWidth;
+    if (options.billboard ?? true) {
+      this.object = new THREE.Sprite(new THREE.SpriteMaterial({ map: this.texture, transparent: true }));
+      this.object.scale.set(worldWidth, worldHeight, 1);
+    } else {
+      this.object = new THREE.Mesh(
+        new THREE.PlaneGeometry(worldWidth, worldHeight),
+        new THREE.MeshBasicMaterial({ map: this.texture, transparent: true, side: THREE.DoubleSide })
+      );
+    }
+  }
+
+  /**
+   * Whether the owner shows the panel (a wrist panel is also hidden while its wrist isn't tracked)
+   */
+  get visible(): boolean {
+    return this.shown;
+  }
+
+  set visible(visible: boolean) {
+    this.shown = visible;
+    this.updateObjectVisibility();
+  }
+
+  /**
+   * Add an element below the others
+   */
+  add<T extends VRUIElement>(element: T): T {
+    element.panel = this;
+    this.elements.push(element);
+    this.layout();
+    return element;
+  }
+
+  /**
+   * Put the panel on an object (camera rig, scene, ...) at a local position
+   */
+  attachTo(parent: THREE.Object3D, position: THREE.Vector3): void {
+    this.wrist = null;
+    this.wristTracked = true;
+    this.updateObjectVisibility();
+    parent.add(this.object);
+    this.object.position.copy(position);
+  }
+
+  /**
+   * Put the panel in the scene and keep it at a wrist, offset in the wrist's frame (updated in update())
+   */
+  attachToWrist(scene: THREE.Object3D, input: MechanicsInputProvider, hand: Handedness, offset: THREE.Vector3): void {
+    scene.add(this.object);
+    this.wrist = { input, hand, offset: offset.clone() };
+  }
+
+  /**
+   * Take the panel out of the scene
+   */
+  detach(): void {
+    this.wrist = null;
+    this.wristTracked = true;
+    this.updateObjectVisibility();
+    this.object.removeFromParent();
+  }
+
+  markDirty(): void {
+    this.dirty = true;
+  }
+
+  /**
+   * Interactive elements (buttons, toggles, sliders) that can be focused
+   */
+  getInteractiveElements(): VRUIElement[] {
+    return this.elements.filter((element) => element.interactive && element.visible);
+  }
+
+  /**
+   * Focus an element (null to clear the focus), scrolling it into view
+   */
+  setFocus(element: VRUIElement | null): void {
+    const index = element ? this.elements.indexOf(element) : -1;
+    if (index !== this.focusIndex) {
+      this.focusIndex = index;
+      this.markDirty();
+    }
+    if (element) {
+      const { y, height } = element.rect;
+      if (y - this.padding < this.scrollY) {
+        this.scrollBy(y - this.padding - this.scrollY);
+      } else if (y + height + this.padding > this.scrollY + this.canvas.height) {
+        this.scrollBy(y + height + this.padding - this.scrollY - this.canvas.height);
+      }
+    }
+  }
+
+  getFocused(): VRUIElement | null {
+    return this.elements[this.focusIndex] ?? null;
+  }
+
+  /**
+   * Move the focus through the interactive elements (wrapping around)
+   */
+  moveFocus(step: number): void {
+    const interactive = this.getInteractiveElements();
+    if (interactive.length === 0) {
+      return;
+    }
+    const current = interactive.indexOf(this.getFocused()!);
+    const next = current === -1 ? (step > 0 ? 0 : interactive.length - 1) : (current + step + interactive.length) % interactive.length;
+    this.setFocus(interactive[next]);
+  }
+
+  /**
+   * Press the focused element
+   */
+  activateFocused(): void {
+    this.getFocused()?.activate();
+  }
+
+  /**
+   * Scroll the layout (px, positive moves further down the content)
+   */
+  scrollBy(delta: number): void {
+    const maxScroll = Math.max(0, this.contentHeight - this.canvas.height);
+    const scrollY = THREE.MathUtils.clamp(this.scrollY + delta, 0, maxScroll);
+    if (scrollY !== this.scrollY) {
+      this.scrollY = scrollY;
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Check if the elements run past the bottom of the canvas
+   */
+  isScrollable(): boolean {
+    return this.contentHeight > this.canvas.height;
+  }
+
+  /**
+   * Find the interactive element at a texture coordinate of the panel (e.g. from a raycast)
+   */
+  hitTest(uv: THREE.Vector2): VRUIHit {
+    const x = uv.x * this.canvas.width;
+    const y = (1 - uv.y) * this.canvas.height + this.scrollY;
+    const element = this.getInteractiveElements().find(
+      ({ rect }) => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+    );
+    return { element: element ?? null, x, y };
+  }
+
+  /**
+   * Follow the wrist, and redraw if anything changed (call once per frame)
+   */
+  update(): void {
+    if (this.wrist) {
+      this.followWrist(this.wrist.input, this.wrist.hand, this.wrist.offset);
+    }
+    if (this.dirty && this.object.visible) {
+      this.draw();
+    }
+  }
+
+  /**
+   * Release the texture and materials
+   */
+  dispose(): void {
+    this.detach();
+    this.texture.dispose();
+    (this.object.material as THREE.Material).dispose();
+    if (this.object instanceof THREE.Mesh) {
+      this.object.geometry.dispose();
+    }
+  }
+
+  private followWrist(input: MechanicsInputProvider, hand: Handedness, offset: THREE.Vector3): void {
+    const controller = input.getHand(hand);
+    this.wristTracked = !!controller?.isTracked;
+    this.updateObjectVisibility();
+    if (!controller?.isTracked) {
+      return;
+    }
+    __wristOffset.copy(offset).applyQuaternion(controller.wristWQuat);
+    this.object.position.copy(controller.wristWPos).add(__wristOffset);
+    this.object.quaternion.copy(controller.wristWQuat);
+  }
+
+  private updateObjectVisibility(): void {
+    this.object.visible = this.shown && this.wristTracked;
+  }
+
+  /**
+   * Stack the elements top to bottom
+   */
+  private layout(): void {
+    let y = this.padding;
+    const width = this.canvas.width - this.padding * 2;
+    for (const element of this.elements) {
+      element.rect = { x: this.padding, y, width, height: element.height };
+      y += element.height + this.gap;
+    }
+    this.contentHeight = y - this.gap + this.padding;
+    this.scrollBy(0);
+    this.markDirty();
+  }
+
+  private draw(): void {
+    this.dirty = false;
+    const ctx = this.canvasContext;
+    if (!ctx) {
+      return;
+    }
+
+    const canvas = this.canvas;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Background
+    ctx.fillStyle = this.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.save();
+    ctx.translate(0, -this.scrollY);
+    this.elements.forEach((element, index) => {
+      if (element.visible) {
+        element.draw(ctx, index === this.focusIndex);
+      }
+    });
+    ctx.restore();
+
+    this.texture.needsUpdate = true;
+  }
+}
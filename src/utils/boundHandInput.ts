@@ -0,0 +1,118 @@
+import * as THREE from "three";
+import { Handedness, HandInput } from "./handInput";
+import { BindableHandInput, InputBindings } from "./inputBindings";
+
+/**
+ * A hand as the mechanics see it: the device driving it (controller, tracked hand or
+ * virtual source) with the rider's bindings applied. Grip and foot-catch come from
+ * whichever buttons they're bound to, everything else is the device's own.
+ *
+ * In toggle grip mode a press grabs and the next press lets go. A toggled grip is
+ * always full strength, so it never slips.
+ */
+export class BoundHandInput implements HandInput {
+  readonly handedness: Handedness;
+  bindings: InputBindings;
+  device: BindableHandInput | undefined;
+
+  private _squeeze: boolean = false;
+  private _gripStrength: number = 0;
+  private _footCatch: boolean = false;
+  private toggledOn: boolean = false;
+  private wasGripButtonDown: boolean = false;
+
+  constructor(handedness: Handedness, bindings: InputBindings) {
+    this.handedness = handedness;
+    this.bindings = bindings;
+
+    // A half-made toggle would survive the switch to hold mode
+    bindings.onChange(() => {
+      this.toggledOn = false;
+    });
+  }
+
+  /**
+   * Read the device's buttons through the bindings (once per frame, before the mechanics run)
+   */
+  update(device: BindableHandInput | undefined): void {
+    if (device !== this.device) {
+      this.device = device;
+      this.toggledOn = false;
+      this.wasGripButtonDown = false;
+    }
+    if (!device) {
+      this._squeeze = false;
+      this._gripStrength = 0;
+      this._footCatch = false;
+      return;
+    }
+
+    const gripButton = this.bindings.get("grip").button;
+    const gripButtonDown = device.isButtonDown(gripButton);
+    if (this.bindings.gripMode === "toggle") {
+      if (gripButtonDown && !this.wasGripButtonDown) {
+        this.toggledOn = !this.toggledOn;
+      }
+      this._squeeze = this.toggledOn;
+      this._gripStrength = this.toggledOn ? 1 : 0;
+    } else {
+      this._squeeze = gripButtonDown;
+      this._gripStrength = device.getButtonValue(gripButton);
+    }
+    this.wasGripButtonDown = gripButtonDown;
+
+    this._footCatch = this.bindings.isActionDown("footCatch", device);
+  }
+
+  get source() {
+    return this.device?.source ?? "none";
+  }
+
+  get isTracked() {
+    return this.device?.isTracked ?? false;
+  }
+
+  get wristWPos() {
+    return this.device!.wristWPos;
+  }
+
+  get wristWQuat() {
+    return this.device!.wristWQuat;
+  }
+
+  get squeeze() {
+    return this._squeeze;
+  }
+
+  get gripStrength() {
+    return this._gripStrength;
+  }
+
+  get footCatch() {
+    return this._footCatch;
+  }
+
+  get select() {
+    return this.device?.select ?? false;
+  }
+
+  get buttonA() {
+    return this.device?.buttonA ?? false;
+  }
+
+  get buttonB() {
+    return this.device?.buttonB ?? false;
+  }
+
+  get thumbStick() {
+    return this.device!.thumbStick;
+  }
+
+  vibrate(intensity: number, timeMs: number): void {
+    this.device?.vibrate(intensity, timeMs);
+  }
+
+  setDisplayAnchor(position: THREE.Vector3 | null): void {
+    this.device?.setDisplayAnchor(position);
+  }
+}
@@ -0,0 +1,34 @@
+import * as THREE from "three";
+
+export type Handedness = "left" | "right";
+
+/**
+ * One of the player's hands, whatever is driving it: a physical controller, a tracked hand,
+ * a replay or an emulator. XrInput exposes both hands through this, and the mechanics
+ * (GripSystem and the tricks) read and drive hands only through it.
+ */
+export interface HandInput {
+  readonly handedness: Handedness;
+  readonly source: string; // "controller", "hand", or the virtual source's name ("replay", "gamepad", ...)
+  readonly isTracked: boolean; // False while the pose is unavailable (tracking lost) - the pose holds its last value
+
+  // Pose
+  readonly wristWPos: THREE.Vector3; // Wrist position in world coordinates
+  readonly wristWQuat: THREE.Quaternion; // Wrist rotation in world orientation (fingers forward, thumb up)
+
+  // Grip (the rider's grip binding, see InputBindings)
+  readonly squeeze: boolean; // Grip held
+  readonly gripStrength: number; // How hard the hand is gripping (0-1)
+
+  // Buttons
+  readonly footCatch: boolean; // Foot-catch held (the rider's binding, A/X by default)
+  readonly select: boolean; // Trigger / pinch
+  readonly buttonA: boolean; // A/X button
+  readonly buttonB: boolean; // B/Y button
+  readonly thumbStick: THREE.Vector2; // (0, 0) if the hand has none
+
+  // Feedback
+  vibrate(intensity: number, timeMs: number): void;
+  /** Draw the hand at this world position (e.g. snapped to a grip) instead of its tracked pose; null to follow tracking */
+  setDisplayAnchor(position: THREE.Vector3 | null): void;
+}
@@ -0,0 +1,252 @@
+import { HandInput } from "./handInput";
+
+/**
+ * Buttons an action can be bound to (by meaning, see xrControllerProfiles for where they are per controller)
+ */
+export type BindableButton = "trigger" | "squeeze" | "buttonA" | "buttonB" | "thumbstick" | "touchpad";
+
+export const BindableButtons: BindableButton[] = ["trigger", "squeeze", "buttonA", "buttonB", "thumbstick", "touchpad"];
+
+/**
+ * Things the rider can do with a button
+ */
+export type InputAction =
+  | "grip" // Hold the bars (each hand uses its own controller)
+  | "footCatch" // Kick the frame away / catch it with the feet
+  | "resetTrick" // Abandon the current trick and start over
+  | "recenter" // Put the rider back in front of the bike where they're standing
+  | "openMenu"; // Open/close the settings panel
+
+export const InputActions: InputAction[] = ["grip", "footCatch", "resetTrick", "recenter", "openMenu"];
+
+/**
+ * Which controller a binding listens to. Grip always uses each hand's own controller.
+ */
+export type BindingHand = "left" | "right" | "either";
+
+export interface InputBinding {
+  button: BindableButton;
+  hand: BindingHand;
+}
+
+/**
+ * "hold" grips while the button is held, "toggle" grips on one press and lets go on the next
+ * (easier on tired hands)
+ */
+export type GripMode = "hold" | "toggle";
+
+/**
+ * A hand input that can also be read by button, so bindings can be applied on top of it
+ */
+export interface BindableHandInput extends HandInput {
+  isButtonDown(button: BindableButton): boolean;
+  getButtonValue(button: BindableButton): number; // 0-1 (analog where the controller has it)
+}
+
+/**
+ * Saved bindings
+ */
+export interface InputBindingsData {
+  version: number;
+  gripMode: GripMode;
+  actions: Record<InputAction, InputBinding>;
+}
+
+const INPUT_BINDINGS_VERSION = 1;
+const INPUT_BINDINGS_STORAGE_KEY = "bmxr.inputBindings";
+
+export const ActionLabels: Record<InputAction, string> = {
+  grip: "Grip",
+  footCatch: "Foot-catch",
+  resetTrick: "Reset trick",
+  recenter: "Recenter",
+  openMenu: "Menu",
+};
+
+export const ButtonLabels: Record<BindableButton, string> = {
+  trigger: "Trigger",
+  squeeze: "Squeeze",
+  buttonA: "A/X",
+  buttonB: "B/Y",
+  thumbstick: "Stick click",
+  touchpad: "Touchpad",
+};
+
+/**
+ * Bindings before the rider changes anything (what the game always used)
+ */
+export function createDefaultBindings(): InputBindingsData {
+  return {
+    version: INPUT_BINDINGS_VERSION,
+    gripMode: "hold",
+    actions: {
+      grip: { button: "squeeze", hand: "either" },
+      footCatch: { button: "buttonA", hand: "either" },
+      resetTrick: { button: "buttonB", hand: "right" },
+      recenter: { button: "thumbstick", hand: "right" },
+      openMenu: { button: "buttonB", hand: "left" },
+    },
+  };
+}
+
+type InputBindingsListener = (bindings: InputBindings) => void;
+
+/**
+ * The rider's button bindings, saved in localStorage.
+ *
+ * A replay plays with the bindings it was recorded with (see useOverride); they're used in
+ * place of the rider's until it ends, and never saved.
+ */
+export class InputBindings {
+  data: InputBindingsData; // The rider's own
+  private override: InputBindingsData | null = null;
+  private listeners: InputBindingsListener[] = [];
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  /**
+   * The bindings in use: the override while there is one, otherwise the rider's
+   */
+  get active(): InputBindingsData {
+    return this.override ?? this.data;
+  }
+
+  /**
+   * Binding for an action
+   */
+  get(action: InputAction): InputBinding {
+    return this.active.actions[action];
+  }
+
+  /**
+   * Bind an action to a button (and save)
+   */
+  set(action: InputAction, binding: InputBinding): void {
+    this.data.actions[action] = { ...binding, hand: action === "grip" ? "either" : binding.hand };
+    console.log(`InputBindings: ${ActionLabels[action]} -> ${describeBinding(this.data.actions[action])}`);
+    this.changed();
+  }
+
+  get gripMode(): GripMode {
+    return this.active.gripMode;
+  }
+
+  setGripMode(mode: GripMode): void {
+    this.data.gripMode = mode;
+    console.log(`InputBindings: Grip mode ${mode}`);
+    this.changed();
+  }
+
+  /**
+   * Back to the default bindings (and save)
+   */
+  resetToDefaults(): void {
+    this.data = createDefaultBindings();
+    console.log("InputBindings: Reset to defaults");
+    this.changed();
+  }
+
+  /**
+   * Use other bindings (e.g. a recording's) without changing the rider's; null goes back to the rider's
+   */
+  useOverride(data: InputBindingsData | null): void {
+    this.override = data;
+    console.log(`InputBindings: ${data ? "Using override bindings" : "Back to the rider's bindings"}`);
+    this.emitChange();
+  }
+
+  /**
+   * A copy of the bindings in use, e.g. to keep with a recording
+   */
+  snapshot(): InputBindingsData {
+    return structuredClone(this.active);
+  }
+
+  /**
+   * Check if an action's button is held on a hand's controller
+   */
+  isActionDown(action: InputAction, hand: BindableHandInput): boolean {
+    const binding = this.get(action);
+    return appliesTo(binding, hand) && hand.isButtonDown(binding.button);
+  }
+
+  /**
+   * Listen for binding changes
+   */
+  onChange(listener: InputBindingsListener): void {
+    this.listeners.push(listener);
+  }
+
+  private changed(): void {
+    this.save();
+    this.emitChange();
+  }
+
+  private emitChange(): void {
+    for (const listener of this.listeners) {
+      listener(this);
+    }
+  }
+
+  /**
+   * Saved bindings, or the defaults if there are none (or they're unreadable)
+   */
+  private load(): InputBindingsData {
+    const defaults = createDefaultBindings();
+    try {
+      const json = globalThis.localStorage?.getItem(INPUT_BINDINGS_STORAGE_KEY);
+      if (!json) {
+        return defaults;
+      }
+
+      const saved = JSON.parse(json) as Partial<InputBindingsData>;
+      if (saved.version !== INPUT_BINDINGS_VERSION) {
+        console.warn(`InputBindings: Ignoring saved bindings version ${saved.version}`);
+        return defaults;
+      }
+
+      // Keep defaults for anything missing or invalid (e.g. actions added since they were saved)
+      for (const action of InputActions) {
+        const binding = saved.actions?.[action];
+        if (binding && BindableButtons.includes(binding.button) && ["left", "right", "either"].includes(binding.hand)) {
+          defaults.actions[action] = binding;
+        }
+      }
+      if (saved.gripMode === "hold" || saved.gripMode === "toggle") {
+        defaults.gripMode = saved.gripMode;
+      }
+      return defaults;
+    } catch (error) {
+      console.warn("InputBindings: Couldn't load saved bindings:", error);
+      return defaults;
+    }
+  }
+
+  private save(): void {
+    try {
+      globalThis.localStorage?.setItem(INPUT_BINDINGS_STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.warn("InputBindings: Couldn't save bindings:", error);
+    }
+  }
+}
+
+/**
+ * Check if a binding listens to a hand's controller
+ */
+function appliesTo(binding: InputBinding, hand: HandInput): boolean {
+  return binding.hand === "either" || binding.hand === hand.handedness;
+}
+
+/**
+ * e.g. "Left B/Y", or "B/Y" for either hand
+ */
+export function describeBinding(binding: InputBinding): string {
+  const button = ButtonLabels[binding.button];
+  if (binding.hand === "either") {
+    return button;
+  }
+  return `${binding.hand === "left" ? "Left" : "Right"} ${button}`;
+}
@@ -0,0 +1,296 @@
+import { Context } from "../context";
+import { isDifficultyPresetField } from "../mechanics/DifficultyPresets";
+
+export const TUNING_FORMAT = "bmxr-tuning";
+export const TUNING_VERSION = 1;
+
+/**
+ * A number that can be changed while the game runs
+ */
+export interface TunableParameter {
+  id: string; // "group.field" - the key in exported JSON
+  group: string; // "barspin", "grip", "handlebars"
+  label: string;
+  min: number; // Range for sliders (typed values aren't limited to it)
+  max: number;
+  step: number;
+  lowest?: number; // Values below this are raised to it (absent: no limit, e.g. offsets)
+  presetField?: boolean; // Set by the difficulty presets - changing it makes the difficulty custom
+  get(): number;
+  set(value: number): void;
+}
+
+/**
+ * Exported tuning values (parameter id -> value)
+ */
+export interface TuningFile {
+  format: typeof TUNING_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  values: Record<string, number>;
+}
+
+type TuningListener = (parameter: TunableParameter | null) => void; // null after an import
+
+/**
+ * Tuning lists the mechanics' tunable numbers and changes them live:
+ * - Every number in the barspin's BarspinConfig (found by walking the config, so new fields show up)
+ * - GripSystem's grab distances and grip strength thresholds
+ * - Context's handlebar smoothing, steering limit, position offset and tilt
+ *
+ * The mechanics read these every frame, so changes apply right away. The desktop overlay and
+ * the VR panel both edit through setValue(), and listen with onChange() to show each other's changes.
+ * Changing a value the difficulty presets set marks the difficulty as custom, so scores aren't
+ * credited to the preset.
+ */
+export class Tuning {
+  context: Context;
+  parameters: TunableParameter[];
+
+  private listeners: TuningListener[] = [];
+
+  constructor(context: Context) {
+    this.context = context;
+    this.parameters = [...this.findBarspinParameters(), ...this.createGripParameters(), ...this.createHandlebarParameters()];
+  }
+
+  getParameter(id: string): TunableParameter | undefined {
+    return this.parameters.find((parameter) => parameter.id === id);
+  }
+
+  /**
+   * Change a parameter (raised to its lowest value) and tell the listeners
+   */
+  setValue(parameter: TunableParameter, value: number): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    this.apply(parameter, value);
+    console.log(`Tuning: ${parameter.id} = ${formatTuningValue(parameter.get())}`);
+    this.emitChange(parameter);
+  }
+
+  /**
+   * Listen for changed values (null = many changed at once, e.g. an import)
+   */
+  onChange(listener: TuningListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * The current values, ready to save as JSON
+   */
+  export(): TuningFile {
+    const values: Record<string, number> = {};
+    for (const parameter of this.parameters) {
+      values[parameter.id] = parameter.get();
+    }
+    return { format: TUNING_FORMAT, version: TUNING_VERSION, exportedAt: new Date().toISOString(), values };
+  }
+
+  /**
+   * Apply exported values (JSON). Throws if it isn't a tuning file; unknown ids are skipped.
+   * Returns how many values were applied.
+   */
+  import(json: string): number {
+    const file = parseTuning(json);
+    let applied = 0;
+    for (const [id, value] of Object.entries(file.values)) {
+      const parameter = this.getParameter(id);
+      if (!parameter || typeof value !== "number" || !Number.isFinite(value)) {
+        console.warn(`Tuning: Skipped ${id} (${parameter ? "not a number" : "unknown parameter"})`);
+        continue;
+      }
+      this.apply(parameter, value);
+      applied++;
+    }
+    console.log(`Tuning: Imported ${applied} value(s)`);
+    this.emitChange(null);
+    return applied;
+  }
+
+  private apply(parameter: TunableParameter, value: number): void {
+    const limited = parameter.lowest !== undefined ? Math.max(parameter.lowest, value) : value;
+    if (parameter.presetField && limited !== parameter.get()) {
+      this.context.difficulty.markCustom();
+    }
+    parameter.set(limited);
+  }
+
+  private emitChange(parameter: TunableParameter | null): void {
+    for (const listener of this.listeners) {
+      listener(parameter);
+    }
+  }
+
+  /**
+   * Every number in BarspinConfig, with a slider range around its current value
+   */
+  private findBarspinParameters(): TunableParameter[] {
+    const config = this.context.barspinMechanic.config as unknown as Record<string, unknown>;
+    const specs: ParameterSpec[] = [];
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value !== "number") {
+        continue;
+      }
+      const max = value > 0 ? value * 3 : 1;
+      specs.push({
+        label: key,
+        ...range(0, max, max >= 100 ? 10 : max >= 10 ? 0.5 : 0.01),
+        lowest: 0,
+        presetField: isDifficultyPresetField(key),
+        get: () => config[key] as number,
+        set: (newValue) => (config[key] = newValue),
+      });
+    }
+    return inGroup("barspin", specs);
+  }
+
+  /**
+   * GripSystem's grab distances (through its setters, so the grip zones follow) and grip strengths
+   */
+  private createGripParameters(): TunableParameter[] {
+    const gripSystem = this.context.gripSystem;
+    return inGroup("grip", [
+      {
+        label: "proximityThreshold",
+        ...range(0, 0.3, 0.005),
+        lowest: 0,
+        presetField: true,
+        get: () => gripSystem.proximityThreshold,
+        set: (value) => gripSystem.setGrabThresholds(value, gripSystem.grabThreshold),
+      },
+      {
+        label: "grabThreshold",
+        ...range(0, 0.3, 0.005),
+        lowest: 0,
+        presetField: true,
+        get: () => gripSystem.grabThreshold,
+        set: (value) => gripSystem.setGrabThresholds(gripSystem.proximityThreshold, value),
+      },
+      {
+        label: "frameProximityThreshold",
+        ...range(0, 1, 0.01),
+        lowest: 0,
+        get: () => gripSystem.frameProximityThreshold,
+        set: (value) => gripSystem.setFrameGrabThresholds(value, gripSystem.frameGrabThreshold),
+      },
+      {
+        label: "frameGrabThreshold",
+        ...range(0, 1, 0.01),
+        lowest: 0,
+        get: () => gripSystem.frameGrabThreshold,
+        set: (value) => gripSystem.setFrameGrabThresholds(gripSystem.frameProximityThreshold, value),
+      },
+      {
+        label: "grabGripStrength",
+        ...range(0, 1, 0.05),
+        lowest: 0,
+        get: () => gripSystem.grabGripStrength,
+        set: (value) => (gripSystem.grabGripStrength = value),
+      },
+      {
+        label: "releaseGripStrength",
+        ...range(0, 1, 0.05),
+        lowest: 0,
+        get: () => gripSystem.releaseGripStrength,
+        set: (value) => (gripSystem.releaseGripStrength = value),
+      },
+      {
+        label: "firmGripStrength",
+        ...range(0, 1, 0.05),
+        lowest: 0,
+        get: () => gripSystem.firmGripStrength,
+        set: (value) => (gripSystem.firmGripStrength = value),
+      },
+    ]);
+  }
+
+  /**
+   * How Context places and steers the handlebars in onAnimate
+   */
+  private createHandlebarParameters(): TunableParameter[] {
+    const context = this.context;
+    const offset = context.handlebarOffset;
+    return inGroup("handlebars", [
+      {
+        label: "handlebarRotationSmoothing",
+        ...range(0.01, 1, 0.01),
+        lowest: 0.01, // 0 would leave the bars where they are
+        get: () => context.handlebarRotationSmoothing,
+        set: (value) => (context.handlebarRotationSmoothing = value),
+      },
+      {
+        label: "maxHandlebarRotation",
+        ...range(0, Math.PI, 0.01),
+        lowest: 0,
+        get: () => context.maxHandlebarRotation,
+        set: (value) => (context.maxHandlebarRotation = value),
+      },
+      { label: "offsetX", ...range(-0.5, 0.5, 0.01), get: () => offset.x, set: (value) => (offset.x = value) },
+      { label: "offsetY", ...range(-1, 0.5, 0.01), get: () => offset.y, set: (value) => (offset.y = value) },
+      { label: "offsetZ", ...range(-1, 0, 0.01), get: () => offset.z, set: (value) => (offset.z = value) },
+      {
+        label: "tilt",
+        ...range(-Math.PI / 4, Math.PI / 4, 0.01),
+        get: () => context.handlebarTilt,
+        set: (value) => (context.handlebarTilt = value),
+      },
+    ]);
+  }
+}
+
+/**
+ * A parameter before it's given its group and id
+ */
+type ParameterSpec = Omit<TunableParameter, "id" | "group">;
+
+function inGroup(group: string, specs: ParameterSpec[]): TunableParameter[] {
+  return specs.map((spec) => ({ id: `${group}.${spec.label}`, group, ...spec }));
+}
+
+function range(min: number, max: number, step: number): Pick<TunableParameter, "min" | "max" | "step"> {
+  return { min, max, step };
+}
+
+/**
+ * A value for display: up to 3 decimals, without trailing zeros
+ */
+export function formatTuningValue(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+/**
+ * Parse and validate exported tuning values from JSON.
+ * Throws if the JSON isn't a tuning file this version can read.
+ */
+export function parseTuning(json: string): TuningFile {
+  const data = JSON.parse(json);
+
+  if (!data || data.format !== TUNING_FORMAT) {
+    throw new Error("Not a bmXr tuning file");
+  }
+  if (data.version !== TUNING_VERSION) {
+    throw new Error(`Unsupported tuning version ${data.version} (expected ${TUNING_VERSION})`);
+  }
+  if (!data.values || typeof data.values !== "object") {
+    throw new Error("Tuning file has no values");
+  }
+
+  return data as TuningFile;
+}
+
+/**
+ * Save tuning values as a JSON file through the browser's download prompt
+ */
+export function downloadTuning(file: TuningFile, filename?: string): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename ?? `bmxr-tuning-${file.exportedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
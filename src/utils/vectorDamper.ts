@@ -0,0 +1,38 @@
+import * as THREE from "three";
+
+/**
+ * Smooths a vector over time (exponential moving average), so jittery tracked
+ * values like hand-tracking pointers settle instead of twitching.
+ */
+export class Vector3Damper {
+  timeS: number; // Time constant (seconds) - larger is smoother but slower
+  value: THREE.Vector3;
+  _lastTime: number | null;
+
+  constructor(timeS: number) {
+    this.timeS = timeS;
+    this.value = new THREE.Vector3();
+    this._lastTime = null;
+  }
+
+  /**
+   * Add a sample taken at the given time (seconds) and return the damped value
+   */
+  add(time: number, sample: THREE.Vector3): THREE.Vector3 {
+    if (this._lastTime === null || this.timeS <= 0) {
+      this.value.copy(sample);
+    } else {
+      const dt = Math.max(0, time - this._lastTime);
+      this.value.lerp(sample, 1 - Math.exp(-dt / this.timeS));
+    }
+    this._lastTime = time;
+    return this.value;
+  }
+
+  /**
+   * Forget the history; the next sample is taken as-is
+   */
+  reset() {
+    this._lastTime = null;
+  }
+}
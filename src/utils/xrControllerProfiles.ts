@@ -0,0 +1,98 @@
+/**
+ * Where each logical control lives in a controller's gamepad, by WebXR input profile.
+ * Indices follow the WebXR input profiles registry (https://github.com/immersive-web/webxr-input-profiles).
+ * null means the controller doesn't have that control.
+ */
+export interface ControllerMapping {
+  name: string; // Shown in logs
+  trigger: number | null;
+  squeeze: number | null;
+  touchpad: number | null; // Touchpad click
+  thumbstick: number | null; // Thumbstick click
+  buttonA: number | null; // A (right) / X (left)
+  buttonB: number | null; // B (right) / Y (left)
+  touchpadAxes: [number, number] | null;
+  thumbstickAxes: [number, number] | null;
+}
+
+/**
+ * The xr-standard layout, plus the A/B buttons most controllers add after it.
+ * Used for generic profiles, virtual sources and unknown controllers.
+ */
+export const XrStandardMapping: ControllerMapping = {
+  name: "xr-standard",
+  trigger: 0,
+  squeeze: 1,
+  touchpad: 2,
+  thumbstick: 3,
+  buttonA: 4,
+  buttonB: 5,
+  touchpadAxes: [0, 1],
+  thumbstickAxes: [2, 3],
+};
+
+// Thumbstick and A/B, no touchpad (slot 2 and axes 0-1 are empty)
+const ThumbstickFaceButtonsLayout = {
+  trigger: 0,
+  squeeze: 1,
+  touchpad: null,
+  thumbstick: 3,
+  buttonA: 4,
+  buttonB: 5,
+  touchpadAxes: null,
+  thumbstickAxes: [2, 3] as [number, number],
+};
+
+/**
+ * Known controllers, matched against an input source's profiles (most specific first)
+ */
+const ControllerMappings: { profiles: string[]; mapping: ControllerMapping }[] = [
+  {
+    profiles: ["meta-quest-touch-plus", "meta-quest-touch-pro", "oculus-touch-v3", "oculus-touch-v2", "oculus-touch"],
+    mapping: { name: "Quest Touch", ...ThumbstickFaceButtonsLayout },
+  },
+  {
+    profiles: ["valve-index"],
+    mapping: { ...XrStandardMapping, name: "Valve Index" },
+  },
+  {
+    // Original WMR controllers have no A/B; the touchpad click stands in for A (foot-catch)
+    profiles: ["microsoft-mixed-reality"],
+    mapping: { ...XrStandardMapping, name: "Windows Mixed Reality", buttonA: 2, buttonB: null },
+  },
+  {
+    profiles: ["hp-mixed-reality"],
+    mapping: { name: "HP Reverb G2", ...ThumbstickFaceButtonsLayout },
+  },
+  {
+    profiles: ["pico-4", "pico-neo3", "pico-neo2"],
+    mapping: { name: "Pico", ...ThumbstickFaceButtonsLayout },
+  },
+];
+
+// Unknown profile lists already warned about
+const warnedProfiles = new Set<string>();
+
+/**
+ * Find the button mapping for an input source's profiles.
+ * Generic profiles (and none at all) use xr-standard; unknown controllers do too, with a warning.
+ */
+export function resolveControllerMapping(profiles: readonly string[]): ControllerMapping {
+  for (const profile of profiles) {
+    const known = ControllerMappings.find((entry) => entry.profiles.includes(profile));
+    if (known) {
+      return known.mapping;
+    }
+  }
+
+  // Unknown controllers usually list a generic fallback profile after their own; only a
+  // source that is generic to begin with (like emulators) is expected
+  if (profiles.length > 0 && !profiles[0].startsWith("generic-")) {
+    const key = profiles.join(",");
+    if (!warnedProfiles.has(key)) {
+      warnedProfiles.add(key);
+      console.warn(`Unknown controller profiles [${key}] - using the xr-standard button mapping`);
+    }
+  }
+  return XrStandardMapping;
+}
@@ -0,0 +1,234 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import {
+  VirtualController,
+  VirtualInputFrame,
+  VirtualInputSource,
+  createGamepadButton,
+  createVirtualController,
+  setVirtualWristPose,
+} from "./xrVirtualInput";
+
+// Working variables, prevents "new" allocations
+const __up = new THREE.Vector3(0, 1, 0);
+const __wristPosition = new THREE.Vector3();
+
+/**
+ * Keys for each hand's buttons
+ */
+interface EmulatedHandKeys {
+  squeeze: string;
+  select: string;
+  buttonA: string;
+  buttonB: string;
+}
+
+/**
+ * Pose and buttons of one emulated hand
+ */
+interface EmulatedHand {
+  side: "left" | "right";
+  controller: VirtualController;
+  keys: EmulatedHandKeys;
+  restPosition: THREE.Vector3; // Wrist position on its grip with the bars straight, from the stem
+  wristPosition: THREE.Vector3; // Current wrist position, from the stem (Context.handlebarOffset)
+  yaw: number; // Twist around the vertical (radians)
+}
+
+/**
+ * Key and mouse bindings, shown in the desktop controls help
+ */
+export const DesktopEmulatorHelp = [
+  "1 / 2 - mouse and twist keys drive the left / right hand",
+  "Shift + mouse - move the hand",
+  "Alt + mouse, Q / E - twist the hand (barspin throw)",
+  "A / D - steer both hands around the stem",
+  "F / J - left / right squeeze (grip)",
+  "R / U - left / right trigger (select)",
+  "X / N - left / right A/X button (foot-catch)",
+  "C / M - left / right B/Y button (menu / reset trick)",
+  "Up / Down - thumbstick of the active hand (menus)",
+  "Backspace - put both hands back on the grips",
+];
+
+/**
+ * Emulates both controllers with the keyboard and mouse for desktop testing.
+ *
+ * Hands start on the grips. Their wrist poses drive virtual grip objects (the
+ * wrist offset is undone so XrMechanicalControllerInput lands the wrist exactly
+ * where it's placed), and keys drive the squeeze, select, A/X and B/Y buttons.
+ */
+export class XrDesktopEmulator implements VirtualInputSource {
+  readonly name = "desktop emulator";
+  context: Context;
+  left: EmulatedHand;
+  right: EmulatedHand;
+  activeHand: "left" | "right" = "right";
+
+  // Configuration
+  mouseMoveScale: number = 0.001; // Meters per pixel of mouse movement
+  mouseTwistScale: number = 0.01; // Radians per pixel of mouse movement
+  twistSpeed: number = 8; // Q/E twist rate (rad/s) - comfortably above the barspin throw threshold
+  steerSpeed: number = 1.5; // A/D steering rate (rad/s)
+
+  private pressedKeys: Set<string> = new Set();
+  private onKeyDown = (event: KeyboardEvent) => this.handleKey(event, true);
+  private onKeyUp = (event: KeyboardEvent) => this.handleKey(event, false);
+  private onMouseMove = (event: MouseEvent) => this.handleMouseMove(event);
+  private onBlur = () => this.pressedKeys.clear();
+
+  constructor(context: Context) {
+    this.context = context;
+
+    this.left = this.createHand("left", { squeeze: "KeyF", select: "KeyR", buttonA: "KeyX", buttonB: "KeyC" });
+    this.right = this.createHand("right", { squeeze: "KeyJ", select: "KeyU", buttonA: "KeyN", buttonB: "KeyM" });
+
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+    window.addEventListener("mousemove", this.onMouseMove);
+    window.addEventListener("blur", this.onBlur);
+  }
+
+  /**
+   * Create an emulated hand resting on its grip
+   */
+  private createHand(side: "left" | "right", keys: EmulatedHandKeys): EmulatedHand {
+    const restPosition = new THREE.Vector3(side === "left" ? -0.3 : 0.3, 0, 0);
+    return {
+      side,
+      controller: createVirtualController(this.context.scene),
+      keys,
+      restPosition,
+      wristPosition: restPosition.clone(),
+      yaw: 0,
+    };
+  }
+
+  /**
+   * Apply held keys and pose the virtual grips for this frame
+   */
+  nextFrame(): VirtualInputFrame | null {
+    const deltaTime = this.context.deltaTime;
+
+    // Twist the active hand
+    const twist = (this.isPressed("KeyQ") ? 1 : 0) - (this.isPressed("KeyE") ? 1 : 0);
+    this.getActiveHand().yaw += twist * this.twistSpeed * deltaTime;
+
+    // Steer both hands around the stem
+    const steer = (this.isPressed("KeyA") ? 1 : 0) - (this.isPressed("KeyD") ? 1 : 0);
+    if (steer !== 0) {
+      const angle = steer * this.steerSpeed * deltaTime;
+      for (const hand of [this.left, this.right]) {
+        hand.wristPosition.applyAxisAngle(__up, angle);
+        hand.yaw += angle;
+      }
+    }
+
+    this.updateHand(this.left);
+    this.updateHand(this.right);
+    return {};
+  }
+
+  /**
+   * Both emulated controllers are always connected
+   */
+  getController(hand: "left" | "right"): VirtualController {
+    return hand === "left" ? this.left.controller : this.right.controller;
+  }
+
+  /**
+   * Put both hands back on the grips, straight
+   */
+  resetHands(): void {
+    for (const hand of [this.left, this.right]) {
+      hand.wristPosition.copy(hand.restPosition);
+      hand.yaw = 0;
+    }
+  }
+
+  private getActiveHand(): EmulatedHand {
+    return this.activeHand === "left" ? this.left : this.right;
+  }
+
+  private isPressed(code: string): boolean {
+    return this.pressedKeys.has(code);
+  }
+
+  /**
+   * Pose the virtual grip from the wrist and fill in its buttons
+   */
+  private updateHand(hand: EmulatedHand): void {
+    const controller = hand.controller;
+    __wristPosition.copy(this.context.handlebarOffset).add(hand.wristPosition);
+    setVirtualWristPose(controller, hand.side, __wristPosition, hand.yaw);
+
+    controller.squeeze = this.isPressed(hand.keys.squeeze);
+    controller.select = this.isPressed(hand.keys.select);
+
+    // xr-standard order: trigger, squeeze, touchpad, thumbstick, A/X, B/Y
+    controller.gamepad.buttons = [
+      createGamepadButton(controller.select),
+      createGamepadButton(controller.squeeze),
+      createGamepadButton(false),
+      createGamepadButton(false),
+      createGamepadButton(this.isPressed(hand.keys.buttonA)),
+      createGamepadButton(this.isPressed(hand.keys.buttonB)),
+    ];
+
+    // Thumbstick y is negative pushed forward
+    const stickY = hand.side === this.activeHand ? (this.isPressed("ArrowDown") ? 1 : 0) - (this.isPressed("ArrowUp") ? 1 : 0) : 0;
+    controller.gamepad.axes = [0, 0, 0, stickY];
+  }
+
+  private handleKey(event: KeyboardEvent, pressed: boolean): void {
+    if (event.target instanceof HTMLInputElement) {
+      return;
+    }
+
+    if (pressed) {
+      this.pressedKeys.add(event.code);
+    } else {
+      this.pressedKeys.delete(event.code);
+    }
+
+    if (!pressed) {
+      return;
+    }
+    switch (event.code) {
+      case "Digit1":
+        this.activeHand = "left";
+        break;
+      case "Digit2":
+        this.activeHand = "right";
+        break;
+      case "Backspace":
+        this.resetHands();
+        break;
+    }
+  }
+
+  private handleMouseMove(event: MouseEvent): void {
+    const hand = this.getActiveHand();
+    if (event.shiftKey) {
+      // Move in the horizontal plane: right is +X, up the screen is forward (-Z)
+      hand.wristPosition.x += event.movementX * this.mouseMoveScale;
+      hand.wristPosition.z += event.movementY * this.mouseMoveScale;
+    } else if (event.altKey) {
+      // Dragging right twists clockwise from above
+      hand.yaw -= event.movementX * this.mouseTwistScale;
+    }
+  }
+
+  /**
+   * Remove listeners and the virtual grips
+   */
+  dispose(): void {
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    window.removeEventListener("mousemove", this.onMouseMove);
+    window.removeEventListener("blur", this.onBlur);
+    this.left.controller.grip.removeFromParent();
+    this.right.controller.grip.removeFromParent();
+    this.pressedKeys.clear();
+  }
+}
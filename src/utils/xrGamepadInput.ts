@@ -0,0 +1,188 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import {
+  VirtualController,
+  VirtualInputFrame,
+  VirtualInputSource,
+  createGamepadButton,
+  createVirtualController,
+  setVirtualWristPose,
+} from "./xrVirtualInput";
+
+// Working variables, prevents "new" allocations
+const __wristPosition = new THREE.Vector3();
+
+/**
+ * Standard Gamepad layout indices (https://w3c.github.io/gamepad/#remapping)
+ */
+const StandardButtons = {
+  leftBumper: 4,
+  rightBumper: 5,
+  leftTrigger: 6,
+  rightTrigger: 7,
+};
+const StandardAxes = {
+  leftStickX: 0,
+  rightStickX: 2,
+};
+
+/**
+ * Pose of one gamepad-driven hand
+ */
+interface GamepadHand {
+  side: "left" | "right";
+  controller: VirtualController;
+  wristPosition: THREE.Vector3; // Wrist stays on its grip, from the stem (Context.handlebarOffset)
+  yaw: number; // Twist around the vertical from the stick (radians)
+}
+
+/**
+ * Gamepad mapping, shown in the desktop controls help
+ */
+export const GamepadInputHelp = [
+  "Left / right trigger - left / right squeeze (grip)",
+  "Left / right stick (sideways) - twist the left / right wrist; flick it to throw a barspin",
+  "Left / right bumper - left / right A/X button (foot-catch)",
+];
+
+/**
+ * Drives both controllers from a standard gamepad (navigator.getGamepads) for play without a headset.
+ *
+ * Hands stay on the grips. Each stick twists its wrist about the stem, each trigger is that
+ * hand's squeeze, and haptic pulses become rumble. Controllers disconnect while no gamepad is connected.
+ */
+export class XrGamepadInput implements VirtualInputSource {
+  readonly name = "gamepad";
+  context: Context;
+  left: GamepadHand;
+  right: GamepadHand;
+  gamepad: Gamepad | null = null;
+
+  // Configuration
+  gamepadIndex: number | null = null; // Gamepad to use; null uses the first connected one
+  maxTwist: number = Math.PI / 2; // Wrist twist at full stick deflection (radians)
+  stickDeadzone: number = 0.15; // Stick deflection ignored around the center
+  squeezeThreshold: number = 0.5; // Trigger value that counts as a squeeze
+
+  constructor(context: Context) {
+    this.context = context;
+    this.left = this.createHand("left");
+    this.right = this.createHand("right");
+  }
+
+  /**
+   * Create a hand resting on its grip
+   */
+  private createHand(side: "left" | "right"): GamepadHand {
+    const controller = createVirtualController(this.context.scene);
+    controller.gamepad.hapticActuators = [{ pulse: (intensity, timeMs) => this.rumble(side, intensity, timeMs) }];
+    return {
+      side,
+      controller,
+      wristPosition: new THREE.Vector3(side === "left" ? -0.3 : 0.3, 0, 0),
+      yaw: 0,
+    };
+  }
+
+  /**
+   * Read the gamepad and pose the virtual grips for this frame
+   */
+  nextFrame(): VirtualInputFrame | null {
+    this.gamepad = this.findGamepad();
+    if (this.gamepad) {
+      this.updateHand(this.left, this.gamepad);
+      this.updateHand(this.right, this.gamepad);
+    }
+    return {};
+  }
+
+  /**
+   * Controller for a hand, or null while no gamepad is connected
+   */
+  getController(hand: "left" | "right"): VirtualController | null {
+    if (!this.gamepad) {
+      return null;
+    }
+    return hand === "left" ? this.left.controller : this.right.controller;
+  }
+
+  /**
+   * The configured gamepad, or the first connected one
+   */
+  private findGamepad(): Gamepad | null {
+    const gamepads = navigator.getGamepads();
+    if (this.gamepadIndex !== null) {
+      return gamepads[this.gamepadIndex] ?? null;
+    }
+    return gamepads.find((gamepad) => gamepad?.connected) ?? null;
+  }
+
+  /**
+   * Twist the wrist from its stick and fill in its buttons
+   */
+  private updateHand(hand: GamepadHand, gamepad: Gamepad): void {
+    const isLeft = hand.side === "left";
+    const controller = hand.controller;
+
+    // Stick right twists clockwise from above (negative yaw)
+    const stickX = this.applyDeadzone(gamepad.axes[isLeft ? StandardAxes.leftStickX : StandardAxes.rightStickX] ?? 0);
+    hand.yaw = -stickX * this.maxTwist;
+    __wristPosition.copy(this.context.handlebarOffset).add(hand.wristPosition);
+    setVirtualWristPose(controller, hand.side, __wristPosition, hand.yaw);
+
+    const trigger = gamepad.buttons[isLeft ? StandardButtons.leftTrigger : StandardButtons.rightTrigger]?.value ?? 0;
+    const bumper = gamepad.buttons[isLeft ? StandardButtons.leftBumper : StandardButtons.rightBumper]?.pressed ?? false;
+    controller.squeeze = trigger >= this.squeezeThreshold;
+    controller.select = false;
+
+    // xr-standard order: trigger, squeeze, touchpad, thumbstick, A/X, B/Y
+    controller.gamepad.buttons = [
+      createGamepadButton(false),
+      createGamepadButton(controller.squeeze, trigger),
+      createGamepadButton(false),
+      createGamepadButton(false),
+      createGamepadButton(bumper),
+      createGamepadButton(false),
+    ];
+    controller.gamepad.axes = [0, 0, 0, 0];
+  }
+
+  /**
+   * Remove the dead zone and rescale the rest of the stick range to 0-1
+   */
+  private applyDeadzone(value: number): number {
+    const magnitude = Math.abs(value);
+    if (magnitude < this.stickDeadzone) {
+      return 0;
+    }
+    return (Math.sign(value) * (magnitude - this.stickDeadzone)) / (1 - this.stickDeadzone);
+  }
+
+  /**
+   * Play a haptic pulse as rumble: the left hand on the strong motor, the right on the weak one
+   */
+  private rumble(side: "left" | "right", intensity: number, timeMs: number): void {
+    const actuator = this.gamepad?.vibrationActuator;
+    if (!actuator) {
+      return;
+    }
+    actuator
+      .playEffect("dual-rumble", {
+        duration: timeMs,
+        strongMagnitude: side === "left" ? intensity : 0,
+        weakMagnitude: side === "right" ? intensity : 0,
+      })
+      .catch(() => {
+        // Rumble is best-effort; some browsers reject effects they don't support
+      });
+  }
+
+  /**
+   * Remove the virtual grips
+   */
+  dispose(): void {
+    this.left.controller.grip.removeFromParent();
+    this.right.controller.grip.removeFromParent();
+    this.gamepad = null;
+  }
+}
@@ -1,203 +1,285 @@
-// "use strict";
-//
-// import * as THREE from "three";
-// import { Vector3Damper } from "./vectorDamper.js";
-// import { XrGestureTracker } from "./xrGestureTracker.js";
-// import { Context } from "../context.js";
-//
-// const DamperTimeS = 0.15;
-//
-// // Working variables, prevents "new" allocations
-// const __rot = new THREE.Quaternion();
-// const __shoulderWPos = new THREE.Vector3();
-// const __originWPos = new THREE.Vector3();
-// const __originWDir = new THREE.Vector3();
-// const __offset = new THREE.Vector3();
-//
-// /**
-//  * Manages the players physical hand input.
-//  */
-// export class XrHandControllerInput {
-//   gesture: any;
-//   context: Context;
-//   hand: any;
-//   head: any;
-//   gamePad: any;
-//   handSide: any;
-//   hasHand: boolean;
-//   select: boolean;
-//   squeeze: boolean;
-//   _localPosition: THREE.Vector3;
-//   _localRotation: THREE.Quaternion;
-//   _worldPosition: THREE.Vector3;
-//   _worldRotation: THREE.Quaternion;
-//   _pointerOrigin: THREE.Vector3;
-//   _pointerDirection: THREE.Vector3;
-//   pointerActive: boolean;
-//   _pointerOriginDamper: any;
-//   _pointerDirectionDamper: any;
-//   _lastUpdate: number;
-//   _wristAxis: THREE.AxesHelper;
-//   _gamePad: any;
-//   constructor(context: Context, hand, gamePad, handSide, head) {
-//     this.gesture = new XrGestureTracker(context, hand, handSide, head);
-//     this.context = context;
-//     this.hand = hand;
-//     this.head = head;
-//     this.gamePad = gamePad;
-//     this.handSide = handSide;
-//     this.hasHand = true;
-//
-//     this.select = false;
-//     this.squeeze = false;
-//
-//     this._localPosition = new THREE.Vector3();
-//     this._localRotation = new THREE.Quaternion();
-//     this._worldPosition = new THREE.Vector3();
-//     this._worldRotation = new THREE.Quaternion();
-//     this._pointerOrigin = new THREE.Vector3();
-//     this._pointerDirection = new THREE.Vector3();
-//     this.pointerActive = false;
-//     this._pointerOriginDamper = new Vector3Damper(DamperTimeS);
-//     this._pointerDirectionDamper = new Vector3Damper(DamperTimeS);
-//     this._lastUpdate = -1;
-//     this._wristAxis = new THREE.AxesHelper(0.1);
-//   }
-//
-//   /*
-//    * Position of the head tracker relative to the parent object.
-//    */
-//   get wristLPos() {
-//     this.refresh();
-//     return this._localPosition;
-//   }
-//
-//   /*
-//    * Rotation of the head tracker relative to the parent object.
-//    */
-//   get wristLQuat() {
-//     this.refresh();
-//     return this._localRotation;
-//   }
-//
-//   /*
-//    * position of head in world coordinates
-//    */
-//   get wristWPos() {
-//     this.refresh();
-//     return this._worldPosition;
-//   }
-//
-//   /*
-//    * rotation of head in world orientation
-//    */
-//   get wristWQuat() {
-//     this.refresh();
-//     return this._worldRotation;
-//   }
-//
-//   get pointerWOrigin() {
-//     this.refresh();
-//     return this._pointerOrigin;
-//   }
-//
-//   get pointerWDirection() {
-//     this.refresh();
-//     return this._pointerDirection;
-//   }
-//
-//   /*
-//    * Apply haptic feedback to the controller (vibrate)
-//    */
-//   vibrate(intensity, timeMs) {
-//     if (this._gamePad.hapticActuators && this._gamePad.hapticActuators.length >= 1) {
-//       this._gamePad.hapticActuators[0].pulse(intensity || 1, timeMs || 100);
-//     }
-//   }
-//
-//   /**
-//    * Called when the controller is connected
-//    */
-//   onConnect() {
-//     this.context.scene.add(this._wristAxis);
-//   }
-//
-//   /**
-//    * Called on each animation frame
-//    */
-//   onAnimate() {
-//     this._wristAxis.position.copy(this.wristWPos);
-//     this._wristAxis.quaternion.copy(this.wristWQuat);
-//   }
-//
-//   /**
-//    * Called when the controller is disconnected
-//    */
-//   onDisconnect() {
-//     this._wristAxis?.removeFromParent();
-//   }
-//
-//   /*
-//    * There are no events generated when a controller is moved (currently) so
-//    * we have to query the location of the controller THREE object in order
-//    * to determine its location and rotation.
-//    */
-//   refresh() {
-//     if (this._lastUpdate == this.context.frame) return; // already updated for this frame
-//     this._lastUpdate = this.context.frame;
-//
-//     const wrist = this.hand.joints["wrist"];
-//     if (!wrist) return;
-//
-//     const parent = this.context.scene;
-//     // Position, and determine local (to the parent) position
-//     wrist.getWorldPosition(this._worldPosition);
-//     // Convert world postion and rotation to relative to the parent object
-//     this._localPosition.copy(this._worldPosition);
-//     this._localPosition.sub(parent.position);
-//     __rot.copy(parent.quaternion).invert();
-//     this._localPosition.applyQuaternion(__rot);
-//
-//     // Rotation, and determine local (to the parent) rotation
-//     wrist.getWorldQuaternion(this._worldRotation);
-//     this._localRotation.copy(parent.quaternion);
-//     this._localRotation.invert();
-//     this._localRotation.multiply(this._worldRotation);
-//
-//     this.gesture.update();
-//     // Use the index finger as the default pointer
-//     // this._pointerOrigin.copy(this.gesture.finger['index'].base);
-//     // this._pointerDirection.copy(this.gesture.finger['index'].direction);
-//
-//     // The pointer is between the shoulder and a point between the tip of
-//     // the thump and the tip of the index finger. It makes the pointer feel
-//     // more like a mouse and the hand tracker automatically detects the "pinch"
-//     // action
-//     const height = this.head.position.length();
-//     const offset = height / 8.0;
-//     // Calculate the sholder location => __vec3
-//     __shoulderWPos.copy(this.head.position);
-//     __offset.copy(this.head.up).normalize().multiplyScalar(-offset);
-//     __shoulderWPos.add(__offset); // Base of neck
-//     const shoulderOffset = this.handSide == "right" ? offset : -offset;
-//     __offset.copy(this.head.right).normalize().multiplyScalar(shoulderOffset);
-//     __shoulderWPos.add(__offset); // shoulder
-//
-//     // Midpoint of thumb and index fingers
-//     const indexFinger = this.gesture.finger["index"];
-//     const thumb = this.gesture.finger["thumb"];
-//     if (indexFinger && thumb) {
-//       __originWPos.copy(indexFinger.tip).add(thumb.tip).divideScalar(2.0);
-//     } else {
-//       __originWPos.copy(this._worldPosition);
-//     }
-//     // Use damped values so that a pinch action does not immediately effect the pointer
-//     this._pointerOrigin.copy(this._pointerOriginDamper.add(this.context.elapsedTime, __originWPos));
-//
-//     // Damp the direction as well
-//     __originWDir.copy(this._pointerOrigin).sub(__shoulderWPos).normalize();
-//     this._pointerDirection.copy(this._pointerDirectionDamper.add(this.context.elapsedTime, __originWDir));
-//
-//     this.pointerActive = this.gesture.thumpIndexDistance < 0.05 && this.gesture.palmFacing == "forward";
-//   }
-// }
+"use strict";
+
+import * as THREE from "three";
+import { Vector3Damper } from "./vectorDamper";
+import { XrGestureTracker } from "./xrGestureTracker";
+import { Handedness } from "./handInput";
+import { BindableButton, BindableHandInput } from "./inputBindings";
+import { XrHead } from "./xrHead";
+import { Context } from "../context";
+
+const DamperTimeS = 0.15;
+
+// Working variables, prevents "new" allocations
+const __rot = new THREE.Quaternion();
+const __shoulderWPos = new THREE.Vector3();
+const __originWPos = new THREE.Vector3();
+const __originWDir = new THREE.Vector3();
+const __offset = new THREE.Vector3();
+
+/**
+ * Manages the players physical hand input.
+ *
+ * A closed fist (or curled fingers) is the squeeze, with a little hysteresis so a
+ * half-closed hand doesn't flicker on and off the grip, and a pinch is select.
+ * Hands have no buttons or haptics, so buttonA/B stay false and vibrate() does nothing.
+ * For bindings the fist is the squeeze and the pinch is the trigger.
+ */
+export class XrHandControllerInput implements BindableHandInput {
+  gesture: XrGestureTracker;
+  context: Context;
+  hand: THREE.XRHandSpace;
+  head: XrHead;
+  handSide: Handedness;
+  readonly source = "hand";
+  hasHand: boolean;
+  select: boolean;
+  squeeze: boolean;
+  readonly footCatch = false;
+  readonly buttonA = false;
+  readonly buttonB = false;
+  readonly thumbStick = new THREE.Vector2();
+  _localPosition: THREE.Vector3;
+  _localRotation: THREE.Quaternion;
+  _worldPosition: THREE.Vector3;
+  _worldRotation: THREE.Quaternion;
+  _pointerOrigin: THREE.Vector3;
+  _pointerDirection: THREE.Vector3;
+  pointerActive: boolean;
+  _pointerOriginDamper: Vector3Damper;
+  _pointerDirectionDamper: Vector3Damper;
+  _lastUpdate: number;
+  _wristAxis: THREE.AxesHelper;
+  _gamePad: any;
+  _displayAnchor: THREE.Vector3 | null;
+
+  // Gesture thresholds
+  fistGripThreshold: number = 0.65; // Fist strength that starts a squeeze
+  fistReleaseThreshold: number = 0.45; // Fist strength below which the squeeze ends
+  pinchDistance: number = 0.02; // Thumb tip to index tip distance that counts as a pinch (m)
+
+  constructor(context: Context, hand: THREE.XRHandSpace, gamePad: any, handSide: Handedness, head: XrHead) {
+    this.gesture = new XrGestureTracker(context, hand, handSide, head);
+    this.context = context;
+    this.hand = hand;
+    this.head = head;
+    this._gamePad = gamePad;
+    this.handSide = handSide;
+    this.hasHand = true;
+
+    this.select = false;
+    this.squeeze = false;
+
+    this._localPosition = new THREE.Vector3();
+    this._localRotation = new THREE.Quaternion();
+    this._worldPosition = new THREE.Vector3();
+    this._worldRotation = new THREE.Quaternion();
+    this._pointerOrigin = new THREE.Vector3();
+    this._pointerDirection = new THREE.Vector3();
+    this.pointerActive = false;
+    this._pointerOriginDamper = new Vector3Damper(DamperTimeS);
+    this._pointerDirectionDamper = new Vector3Damper(DamperTimeS);
+    this._lastUpdate = -1;
+    this._wristAxis = new THREE.AxesHelper(0.1);
+    this._displayAnchor = null;
+  }
+
+  get handedness() {
+    return this.handSide;
+  }
+
+  /*
+   * The wrist joint has a pose this frame (WebXR hides joints while tracking is lost)
+   */
+  get isTracked() {
+    const wrist = this.hand.joints["wrist"];
+    return !!wrist && wrist.visible;
+  }
+
+  /*
+   * How closed the fist is (0 = open, 1 = closed)
+   */
+  get gripStrength() {
+    this.refresh();
+    return this.gesture.fistStrength;
+  }
+
+  /*
+   * Fist -> squeeze, pinch -> trigger (a hand has nothing else to bind)
+   */
+  isButtonDown(button: BindableButton) {
+    this.refresh();
+    if (button === "squeeze") return this.squeeze;
+    if (button === "trigger") return this.select;
+    return false;
+  }
+
+  getButtonValue(button: BindableButton) {
+    if (button === "squeeze") return this.gripStrength;
+    return this.isButtonDown(button) ? 1 : 0;
+  }
+
+  /*
+   * Position of the head tracker relative to the parent object.
+   */
+  get wristLPos() {
+    this.refresh();
+    return this._localPosition;
+  }
+
+  /*
+   * Rotation of the head tracker relative to the parent object.
+   */
+  get wristLQuat() {
+    this.refresh();
+    return this._localRotation;
+  }
+
+  /*
+   * position of head in world coordinates
+   */
+  get wristWPos() {
+    this.refresh();
+    return this._worldPosition;
+  }
+
+  /*
+   * rotation of head in world orientation
+   */
+  get wristWQuat() {
+    this.refresh();
+    return this._worldRotation;
+  }
+
+  get pointerWOrigin() {
+    this.refresh();
+    return this._pointerOrigin;
+  }
+
+  get pointerWDirection() {
+    this.refresh();
+    return this._pointerDirection;
+  }
+
+  /*
+   * Apply haptic feedback to the controller (vibrate) - tracked hands usually have none
+   */
+  vibrate(intensity: number, timeMs: number) {
+    if (this._gamePad?.hapticActuators && this._gamePad.hapticActuators.length >= 1) {
+      this._gamePad.hapticActuators[0].pulse(intensity || 1, timeMs || 100);
+    }
+  }
+
+  /*
+   * Draw the wrist axis here (copied) instead of at the wrist, e.g. while attached to a grip
+   */
+  setDisplayAnchor(position: THREE.Vector3 | null) {
+    if (position) {
+      this._displayAnchor = (this._displayAnchor ?? new THREE.Vector3()).copy(position);
+    } else {
+      this._displayAnchor = null;
+    }
+    this._wristAxis.position.copy(this._displayAnchor ?? this.wristWPos);
+  }
+
+  /**
+   * Called when the controller is connected
+   */
+  onConnect() {
+    this.context.scene.add(this._wristAxis);
+    console.log(`${this.handSide} hand tracking enabled`);
+  }
+
+  /**
+   * Called on each animation frame
+   */
+  onAnimate() {
+    this.refresh();
+    this._wristAxis.position.copy(this._displayAnchor ?? this.wristWPos);
+    this._wristAxis.quaternion.copy(this.wristWQuat);
+  }
+
+  /**
+   * Called when the controller is disconnected
+   */
+  onDisconnect() {
+    this._wristAxis?.removeFromParent();
+    this.gesture.removeDebug();
+    this.squeeze = false;
+    this.select = false;
+  }
+
+  /*
+   * There are no events generated when a controller is moved (currently) so
+   * we have to query the location of the controller THREE object in order
+   * to determine its location and rotation.
+   */
+  refresh() {
+    if (this._lastUpdate == this.context.frame) return; // already updated for this frame
+    this._lastUpdate = this.context.frame;
+
+    // Keep the last pose and gesture while tracking is lost
+    const wrist = this.hand.joints["wrist"];
+    if (!wrist || !wrist.visible) return;
+
+    const parent = this.context.scene;
+    // Position, and determine local (to the parent) position
+    wrist.getWorldPosition(this._worldPosition);
+    // Convert world postion and rotation to relative to the parent object
+    this._localPosition.copy(this._worldPosition);
+    this._localPosition.sub(parent.position);
+    __rot.copy(parent.quaternion).invert();
+    this._localPosition.applyQuaternion(__rot);
+
+    // Rotation, and determine local (to the parent) rotation
+    wrist.getWorldQuaternion(this._worldRotation);
+    this._localRotation.copy(parent.quaternion);
+    this._localRotation.invert();
+    this._localRotation.multiply(this._worldRotation);
+
+    this.gesture.update();
+    this.updateGestureButtons();
+
+    // The pointer is between the shoulder and a point between the tip of
+    // the thump and the tip of the index finger. It makes the pointer feel
+    // more like a mouse and the hand tracker automatically detects the "pinch"
+    // action
+    const height = this.head.position.length();
+    const offset = height / 8.0;
+    // Calculate the sholder location => __vec3
+    __shoulderWPos.copy(this.head.position);
+    __offset.copy(this.head.up).normalize().multiplyScalar(-offset);
+    __shoulderWPos.add(__offset); // Base of neck
+    const shoulderOffset = this.handSide == "right" ? offset : -offset;
+    __offset.copy(this.head.right).normalize().multiplyScalar(shoulderOffset);
+    __shoulderWPos.add(__offset); // shoulder
+
+    // Midpoint of thumb and index fingers
+    const indexFinger = this.gesture.finger["index"];
+    const thumb = this.gesture.finger["thumb"];
+    __originWPos.copy(indexFinger.tip).add(thumb.tip).divideScalar(2.0);
+    // Use damped values so that a pinch action does not immediately effect the pointer
+    this._pointerOrigin.copy(this._pointerOriginDamper.add(this.context.elapsedTime, __originWPos));
+
+    // Damp the direction as well
+    __originWDir.copy(this._pointerOrigin).sub(__shoulderWPos).normalize();
+    this._pointerDirection.copy(this._pointerDirectionDamper.add(this.context.elapsedTime, __originWDir));
+
+    this.pointerActive = this.gesture.thumpIndexDistance < 0.05 && this.gesture.palmFacing == "forward";
+  }
+
+  /*
+   * Fist -> squeeze (with hysteresis), pinch -> select
+   */
+  updateGestureButtons() {
+    const fistStrength = this.gesture.fistStrength;
+    if (this.squeeze) {
+      this.squeeze = fistStrength > this.fistReleaseThreshold;
+    } else {
+      this.squeeze = fistStrength >= this.fistGripThreshold;
+    }
+
+    // A closed fist also brings the thumb to the index finger, so it isn't a pinch
+    this.select = !this.squeeze && this.gesture.thumpIndexDistance < this.pinchDistance;
+  }
+}
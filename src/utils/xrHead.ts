@@ -41,6 +41,22 @@ export class XrHead {
   update() {
     this.context.camera.getWorldPosition(this.position);
     this.context.camera.getWorldQuaternion(this.quaternion);
+    this.updateAxes();
+  }
+
+  /**
+   * Use a given head pose instead of the camera (input replay)
+   */
+  setPose(position: [number, number, number], quaternion: [number, number, number, number]) {
+    this.position.fromArray(position);
+    this.quaternion.fromArray(quaternion);
+    this.updateAxes();
+  }
+
+  /**
+   * Derive the head axes from the current pose and move the head model to it
+   */
+  updateAxes() {
     this.worldUp.set(0, 1, 0);
     this.up.set(0, 1, 0).applyQuaternion(this.quaternion);
     this.forward.set(0, 0, -1).applyQuaternion(this.quaternion);
@@ -2,13 +2,28 @@ import * as THREE from "three";
 import { XRControllerModelFactory } from "three/examples/jsm/webxr/XRControllerModelFactory";
 import { XRHandModelFactory } from "three/examples/jsm/webxr/XRHandModelFactory.js";
 import { XrMechanicalControllerInput } from "./xrMechanicalControllerInput";
+import { XrHandControllerInput } from "./xrHandControllerInput";
 import { XrHead } from "./xrHead";
 import { Pointer } from "./pointer";
+import { XrReplayInput } from "./xrReplayInput";
+import { InputRecording } from "./xrInputRecording";
+import { Handedness, HandInput } from "./handInput";
+import { VirtualInputFrame, VirtualInputSource } from "./xrVirtualInput";
+import { InputAction, InputBindings } from "./inputBindings";
+import { BoundHandInput } from "./boundHandInput";
 import { Context } from "../context.js";
 
 const PointerActiveColor = new THREE.Color("gray");
 const PointerPressedColor = new THREE.Color("yellow");
 
+/**
+ * What drives a hand: a grip controller (also used by virtual sources) or a tracked hand
+ */
+export type XrHandController = XrMechanicalControllerInput | XrHandControllerInput;
+
+// Bound actions dispatched on press (grip and foot-catch are read through the hands instead)
+const DispatchedActions: InputAction[] = ["resetTrick", "recenter", "openMenu"];
+
 /**
  * Create the WebXR grip controllers and hand controllers and respond
  * to the event to manage the corresponding handler classes.
@@ -17,11 +32,20 @@ export class XrInput {
   context: Context;
   _controllerModelFactory: XRControllerModelFactory;
   _handModelFactory: XRHandModelFactory;
-  _leftHandController: XrMechanicalControllerInput | undefined;
-  _rightHandController: XrMechanicalControllerInput | undefined;
+  _leftHandController: XrHandController | undefined;
+  _rightHandController: XrHandController | undefined;
   _head: XrHead;
   _leftPointer: Pointer;
   _rightPointer: Pointer;
+  _source: VirtualInputSource | null;
+  sourceFrame: VirtualInputFrame | null; // Virtual source's data for this animation frame, if any
+  _sourceListeners: ((source: VirtualInputSource | null) => void)[];
+  bindings: InputBindings;
+  _leftBoundHand: BoundHandInput;
+  _rightBoundHand: BoundHandInput;
+  _actionDown: Partial<Record<InputAction, boolean>>;
+  _actionListeners: ((action: InputAction) => void)[];
+  actionsEnabled: boolean; // False while a menu is open - only openMenu is dispatched
   constructor(context: Context) {
     this.context = context;
     this._controllerModelFactory = new XRControllerModelFactory();
@@ -29,6 +53,15 @@ export class XrInput {
     this._leftHandController = undefined;
     this._rightHandController = undefined;
     this._head = new XrHead(this.context);
+    this._source = null;
+    this.sourceFrame = null;
+    this._sourceListeners = [];
+    this.bindings = new InputBindings();
+    this._leftBoundHand = new BoundHandInput("left", this.bindings);
+    this._rightBoundHand = new BoundHandInput("right", this.bindings);
+    this._actionDown = {};
+    this._actionListeners = [];
+    this.actionsEnabled = true;
 
     const xr = context.renderer.xr;
     const profile = "mesh"; // 'spheres' | 'boxes' | 'mesh'
@@ -43,13 +76,188 @@ export class XrInput {
 
   onAnimate() {
     this._head.update();
+    if (this._source) {
+      this.updateSource(this._source);
+    }
     this._leftHandController?.onAnimate();
     this._rightHandController?.onAnimate();
+    this._leftBoundHand.update(this._leftHandController);
+    this._rightBoundHand.update(this._rightHandController);
+    this.updateActions();
 
     this.updateDebugPointers(this._leftPointer, this._leftHandController!);
     this.updateDebugPointers(this._rightPointer, this._rightHandController!);
   }
 
+  /**
+   * Get a hand, whatever is driving it, with the rider's bindings applied (undefined while disconnected)
+   */
+  getHand(hand: Handedness): HandInput | undefined {
+    if (!this.getDevice(hand)) return undefined;
+    return hand === "left" ? this._leftBoundHand : this._rightBoundHand;
+  }
+
+  /**
+   * Get the device driving a hand, without bindings (e.g. for menus, which always use the trigger)
+   */
+  getDevice(hand: Handedness): XrHandController | undefined {
+    return hand === "left" ? this._leftHandController : this._rightHandController;
+  }
+
+  /**
+   * Get a hand's pointer ray (VRUIInteraction shortens it to what it hits)
+   */
+  getPointer(hand: Handedness): Pointer {
+    return hand === "left" ? this._leftPointer : this._rightPointer;
+  }
+
+  /**
+   * Listen for bound actions (reset trick, recenter, open menu) being pressed
+   */
+  onAction(listener: (action: InputAction) => void) {
+    this._actionListeners.push(listener);
+  }
+
+  /**
+   * Stop dispatching actions other than openMenu (e.g. while a menu is open)
+   */
+  setActionsEnabled(enabled: boolean) {
+    this.actionsEnabled = enabled;
+  }
+
+  /**
+   * Dispatch the actions whose button was pressed this frame
+   */
+  updateActions() {
+    for (const action of DispatchedActions) {
+      const left = this._leftHandController;
+      const right = this._rightHandController;
+      const isDown = (!!left && this.bindings.isActionDown(action, left)) || (!!right && this.bindings.isActionDown(action, right));
+      const pressed = isDown && !this._actionDown[action];
+      this._actionDown[action] = isDown;
+
+      if (pressed && (this.actionsEnabled || action === "openMenu")) {
+        console.log(`XrInput: ${action}`);
+        for (const listener of this._actionListeners) {
+          listener(action);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drive the controllers from a virtual source (replay, emulator, gamepad) instead of WebXR
+   */
+  setSource(source: VirtualInputSource) {
+    if (this.context.isInVR) {
+      console.warn(`XrInput: Can't use ${source.name} input while in VR`);
+      source.dispose();
+      return;
+    }
+
+    this.clearSource();
+    this._source = source;
+    console.log(`XrInput: Using ${source.name} input`);
+    this.emitSourceChange();
+  }
+
+  /**
+   * The active virtual source, or null when driven by WebXR
+   */
+  getSource() {
+    return this._source;
+  }
+
+  /**
+   * Stop using the virtual source and disconnect its controllers
+   */
+  clearSource() {
+    if (!this._source) return;
+
+    this._leftHandController?.onDisconnect();
+    this._leftHandController = undefined;
+    this._rightHandController?.onDisconnect();
+    this._rightHandController = undefined;
+
+    console.log(`XrInput: Stopped ${this._source.name} input`);
+    this._source.dispose();
+    this._source = null;
+    this.sourceFrame = null;
+    this.emitSourceChange();
+  }
+
+  /**
+   * Listen for the virtual source being set or cleared
+   */
+  onSourceChange(listener: (source: VirtualInputSource | null) => void) {
+    this._sourceListeners.push(listener);
+  }
+
+  emitSourceChange() {
+    for (const listener of this._sourceListeners) {
+      listener(this._source);
+    }
+  }
+
+  /**
+   * Play a recorded input session back through the regular controller inputs
+   */
+  startReplay(recording: InputRecording) {
+    console.log(`XrInput: Replaying ${recording.frames.length} frames recorded ${recording.recordedAt}`);
+    this.setSource(new XrReplayInput(this.context, recording));
+  }
+
+  /**
+   * Stop replaying
+   */
+  stopReplay() {
+    if (this.isReplaying()) {
+      this.clearSource();
+    }
+  }
+
+  isReplaying() {
+    return this._source instanceof XrReplayInput;
+  }
+
+  /**
+   * Apply the source's next frame: head pose, controller connections, poses and buttons
+   */
+  updateSource(source: VirtualInputSource) {
+    const frame = source.nextFrame();
+    if (!frame) {
+      this.clearSource();
+      return;
+    }
+    this.sourceFrame = frame;
+
+    if (frame.head) {
+      this._head.setPose(frame.head.position, frame.head.quaternion);
+    }
+    this._leftHandController = this.updateVirtualController(this._leftHandController, source, "left");
+    this._rightHandController = this.updateVirtualController(this._rightHandController, source, "right");
+  }
+
+  /**
+   * Connect, update or disconnect a controller to match its virtual stand-in
+   */
+  updateVirtualController(controller: XrHandController | undefined, source: VirtualInputSource, handSide: Handedness) {
+    const virtual = source.getController(handSide);
+    if (!virtual) {
+      controller?.onDisconnect();
+      return undefined;
+    }
+
+    if (!(controller instanceof XrMechanicalControllerInput) || controller._grip !== virtual.grip) {
+      controller?.onDisconnect();
+      controller = new XrMechanicalControllerInput(this.context, virtual.grip, virtual.gamepad, handSide, source.name, virtual.profiles);
+      controller.onConnect();
+    }
+    controller.select = virtual.select;
+    controller.squeeze = virtual.squeeze;
+    return controller;
+  }
+
   updateDebugPointers(pointer: any, controller: { pointerActive: any; select: any; pointerWOrigin: any; pointerWDirection: any }) {
     if (!controller || !controller.pointerActive) {
       pointer.visible = false;
@@ -91,17 +299,29 @@ export class XrInput {
     this.logData(data);
     let gamepad = event.data.gamepad;
     if (data.handedness == "right") {
-      this._rightHandController = new XrMechanicalControllerInput(this.context, controllerGrip, gamepad, "right");
-      this.addEvents(controllerGrip, this._rightHandController);
+      this._rightHandController = this.createHandController(data, controllerGrip, hand, gamepad, "right");
       this._rightHandController.onConnect();
     }
     if (data.handedness == "left") {
-      this._leftHandController = new XrMechanicalControllerInput(this.context, controllerGrip, gamepad, "left");
-      this.addEvents(controllerGrip, this._leftHandController);
+      this._leftHandController = this.createHandController(data, controllerGrip, hand, gamepad, "left");
       this._leftHandController.onConnect();
     }
   }
 
+  /**
+   * Hand-tracking input sources get gesture input, everything else the grip controller
+   */
+  createHandController(data: { hand: any; profiles: string[] }, controllerGrip: any, hand: THREE.XRHandSpace, gamepad: any, handSide: Handedness) {
+    if (data.hand) {
+      return new XrHandControllerInput(this.context, hand, gamepad, handSide, this._head);
+    }
+
+    const controller = new XrMechanicalControllerInput(this.context, controllerGrip, gamepad, handSide, "controller", data.profiles);
+    console.info(`${handSide} controller uses the ${controller.buttonMapping.name} button mapping`);
+    this.addEvents(controllerGrip, controller);
+    return controller;
+  }
+
   onControllerDisconnect(event: { data: any }, controllerGrip: any, hand: any) {
     const data = event.data;
     this.logData(data);
@@ -0,0 +1,195 @@
+import * as THREE from "three";
+import { Context } from "../context";
+import { InputBindingsData } from "./inputBindings";
+import { getDifficultyValues } from "../mechanics/DifficultyPresets";
+import { WristOffsets } from "./xrMechanicalControllerInput";
+import { XrHandControllerInput } from "./xrHandControllerInput";
+import { XrHandController } from "./xrInput";
+import {
+  INPUT_RECORDING_FORMAT,
+  INPUT_RECORDING_VERSION,
+  InputRecording,
+  RecordedController,
+  RecordedDifficulty,
+  RecordedFrame,
+  RecordedPose,
+} from "./xrInputRecording";
+
+// Working variables, prevents "new" allocations
+const __position = new THREE.Vector3();
+const __quaternion = new THREE.Quaternion();
+const __wristOffset = new THREE.Vector3();
+
+/**
+ * Records the head pose, controller grip poses, button and axis states and
+ * the frame delta time every frame, for replay with XrReplayInput.
+ * The bindings in use are kept too, and again on any frame the rider changes them,
+ * along with the difficulty when recording started.
+ */
+export class XrInputRecorder {
+  context: Context;
+  isRecording: boolean = false;
+  lastRecording: InputRecording | null = null;
+
+  // Oldest frames are dropped past this (about 5 minutes at 90Hz)
+  maxFrames: number = 27000;
+
+  private frames: RecordedFrame[] = [];
+  private recordedAt: string = "";
+  private profiles: { left?: string[]; right?: string[] } = {};
+  private bindings: InputBindingsData | null = null; // At the first kept frame
+  private bindingsChanged: boolean = false;
+  private difficulty: RecordedDifficulty | null = null;
+
+  constructor(context: Context) {
+    this.context = context;
+    this.context.xrInput.bindings.onChange(() => {
+      this.bindingsChanged = this.isRecording;
+    });
+  }
+
+  /**
+   * Start a new recording
+   */
+  start(): void {
+    this.frames = [];
+    this.recordedAt = new Date().toISOString();
+    this.profiles = {};
+    this.bindings = this.context.xrInput.bindings.snapshot();
+    this.bindingsChanged = false;
+    this.difficulty = this.captureDifficulty();
+    this.isRecording = true;
+    console.log("XrInputRecorder: Recording started");
+  }
+
+  /**
+   * Stop recording and return the recording (also kept as lastRecording)
+   */
+  stop(): InputRecording | null {
+    if (!this.isRecording) {
+      return null;
+    }
+
+    this.isRecording = false;
+    this.lastRecording = {
+      format: INPUT_RECORDING_FORMAT,
+      version: INPUT_RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      profiles: this.profiles,
+      bindings: this.bindings ?? this.context.xrInput.bindings.snapshot(),
+      difficulty: this.difficulty ?? this.captureDifficulty(),
+      frames: this.frames,
+    };
+    this.frames = [];
+
+    console.log(`XrInputRecorder: Recording stopped (${this.lastRecording.frames.length} frames)`);
+    return this.lastRecording;
+  }
+
+  /**
+   * Capture the current frame's input (call after XrInput has updated)
+   */
+  captureFrame(): void {
+    if (!this.isRecording) {
+      return;
+    }
+
+    const xrInput = this.context.xrInput;
+    const frame: RecordedFrame = {
+      deltaTime: this.context.deltaTime,
+      timeScale: this.context.mechanicsClock.timeScale,
+      head: this.capturePose(xrInput._head.position, xrInput._head.quaternion),
+      left: this.captureController(xrInput._leftHandController),
+      right: this.captureController(xrInput._rightHandController),
+    };
+    if (this.bindingsChanged) {
+      frame.bindings = xrInput.bindings.snapshot();
+      this.bindingsChanged = false;
+    }
+    this.frames.push(frame);
+
+    // Keep the most recent frames once the buffer is full
+    if (this.frames.length > this.maxFrames) {
+      const dropped = this.frames.splice(0, Math.ceil(this.maxFrames * 0.1));
+      // The recording now starts with the bindings the last dropped change left in use
+      for (const droppedFrame of dropped) {
+        this.bindings = droppedFrame.bindings ?? this.bindings;
+      }
+    }
+  }
+
+  /**
+   * Snapshot a controller's grip pose and gamepad state
+   */
+  private captureController(controller: XrHandController | undefined): RecordedController | null {
+    if (!controller) {
+      return null;
+    }
+    if (controller instanceof XrHandControllerInput) {
+      return this.captureTrackedHand(controller);
+    }
+    if (controller.profiles.length > 0) {
+      this.profiles[controller.handedness] = controller.profiles;
+    }
+
+    controller._grip.getWorldPosition(__position);
+    controller._grip.getWorldQuaternion(__quaternion);
+
+    const gamepad = controller._gamePad;
+    return {
+      grip: this.capturePose(__position, __quaternion),
+      select: controller.select,
+      squeeze: controller.squeeze,
+      buttons: gamepad?.buttons
+        ? Array.from(gamepad.buttons as ArrayLike<GamepadButton>, (button) => ({
+            pressed: button.pressed,
+            touched: button.touched,
+            value: button.value,
+          }))
+        : [],
+      axes: gamepad?.axes ? Array.from(gamepad.axes as ArrayLike<number>) : [],
+    };
+  }
+
+  /**
+   * Snapshot a tracked hand as a controller, so replays drive it like one: the grip is
+   * placed so the replayed wrist lands on the tracked wrist, the fist is the squeeze
+   * button (with its strength as the value) and the pinch is the trigger
+   */
+  private captureTrackedHand(hand: XrHandControllerInput): RecordedController {
+    __quaternion.copy(hand.wristWQuat);
+    __wristOffset.copy(WristOffsets[hand.handedness]).applyQuaternion(__quaternion);
+    __position.copy(hand.wristWPos).sub(__wristOffset);
+
+    return {
+      grip: this.capturePose(__position, __quaternion),
+      select: hand.select,
+      squeeze: hand.squeeze,
+      buttons: [
+        { pressed: hand.select, touched: hand.select, value: hand.select ? 1 : 0 },
+        { pressed: hand.squeeze, touched: hand.squeeze, value: hand.gripStrength },
+      ],
+      axes: [],
+    };
+  }
+
+  /**
+   * Snapshot the difficulty preset and its values
+   */
+  private captureDifficulty(): RecordedDifficulty {
+    return {
+      name: this.context.getDifficulty(),
+      values: getDifficultyValues(this.context.barspinMechanic, this.context.gripSystem),
+    };
+  }
+
+  /**
+   * Snapshot a pose
+   */
+  private capturePose(position: THREE.Vector3, quaternion: THREE.Quaternion): RecordedPose {
+    return {
+      position: [position.x, position.y, position.z],
+      quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { InputBindingsData } from "./inputBindings";
+import { Difficulty, DifficultyValues } from "../mechanics/DifficultyPresets";
+
+/**
+ * Versioned JSON format for recorded input sessions.
+ *
+ * Each frame holds everything XrInput reads from WebXR for that frame, so a
+ * recording can be fed back through XrInput (see XrReplayInput) and reproduce
+ * the same grip and trick events without a headset. The rider's bindings and grip mode are
+ * kept with it (buttons are recorded raw), so replays read the buttons the same way, and so
+ * is the difficulty, so the same input is judged the same way.
+ */
+
+export const INPUT_RECORDING_FORMAT = "bmxr-input-recording";
+export const INPUT_RECORDING_VERSION = 3;
+
+/**
+ * World-space pose
+ */
+export interface RecordedPose {
+  position: [number, number, number];
+  quaternion: [number, number, number, number]; // x, y, z, w
+}
+
+/**
+ * Mirrors the Gamepad API's GamepadButton
+ */
+export interface RecordedButton {
+  pressed: boolean;
+  touched: boolean;
+  value: number;
+}
+
+/**
+ * One controller for one frame
+ */
+export interface RecordedController {
+  grip: RecordedPose; // Raw grip space pose (before the wrist offset is applied)
+  select: boolean; // Trigger, from selectstart/selectend
+  squeeze: boolean; // Grip button, from squeezestart/squeezeend
+  buttons: RecordedButton[]; // Gamepad buttons in the controller's own layout (see InputRecording.profiles)
+  axes: number[]; // Gamepad axes in the controller's own layout
+}
+
+/**
+ * Everything captured for one animation frame
+ */
+export interface RecordedFrame {
+  deltaTime: number; // Context.deltaTime for the frame (seconds)
+  timeScale?: number; // Simulation speed for the frame (absent: 1, recorded before slow motion existed)
+  head: RecordedPose;
+  left: RecordedController | null; // null while the controller is disconnected
+  right: RecordedController | null;
+  bindings?: InputBindingsData; // Bindings from this frame on, when the rider changed them mid-recording
+}
+
+/**
+ * The difficulty a recording was made at
+ */
+export interface RecordedDifficulty {
+  name: Difficulty; // Preset, or "custom" if its values were tuned
+  values: DifficultyValues; // The values in use (tuned ones included)
+}
+
+/**
+ * A recorded input session
+ */
+export interface InputRecording {
+  format: typeof INPUT_RECORDING_FORMAT;
+  version: number;
+  recordedAt: string; // ISO date the recording started
+  profiles?: { left?: string[]; right?: string[] }; // WebXR input profiles of the recorded controllers (absent: xr-standard)
+  bindings: InputBindingsData; // Bindings and grip mode at the first frame
+  difficulty: RecordedDifficulty; // When recording started
+  frames: RecordedFrame[];
+}
+
+/**
+ * Parse and validate a recording from JSON.
+ * Throws if the JSON isn't a recording this version can replay.
+ */
+export function parseInputRecording(json: string): InputRecording {
+  const data = JSON.parse(json);
+
+  if (!data || data.format !== INPUT_RECORDING_FORMAT) {
+    throw new Error("Not a bmXr input recording");
+  }
+  if (data.version !== INPUT_RECORDING_VERSION) {
+    throw new Error(`Unsupported input recording version ${data.version} (expected ${INPUT_RECORDING_VERSION})`);
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new Error("Input recording has no frames");
+  }
+  if (!data.bindings || typeof data.bindings.actions !== "object") {
+    throw new Error("Input recording has no bindings");
+  }
+  if (!data.difficulty || typeof data.difficulty.values !== "object") {
+    throw new Error("Input recording has no difficulty");
+  }
+
+  return data as InputRecording;
+}
+
+/**
+ * Save a recording as a JSON file through the browser's download prompt
+ */
+export function downloadInputRecording(recording: InputRecording, filename?: string): void {
+  const blob = new Blob([JSON.stringify(recording)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename ?? `bmxr-input-${recording.recordedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,8 @@
 import * as THREE from "three";
 import { Context } from "../context";
+import { Handedness } from "./handInput";
+import { BindableButton, BindableHandInput } from "./inputBindings";
+import { ControllerMapping, resolveControllerMapping } from "./xrControllerProfiles";
 
 // Working variables, prevents "new" allocations
 const __rot = new THREE.Quaternion();
@@ -8,14 +11,23 @@ const __euler = new THREE.Euler();
 const __wristQuat = new THREE.Quaternion();
 const __tempVec = new THREE.Vector3();
 
+// Offset from the grip space origin to the wrist, in grip space
+export const WristOffsets = {
+  left: new THREE.Vector3(-0.02, 0.0, 0.09),
+  right: new THREE.Vector3(0.02, 0.0, 0.09),
+};
+
 /**
  * Manages the standard WebXR mechanical "grip" controller.
  */
-export class XrMechanicalControllerInput {
+export class XrMechanicalControllerInput implements BindableHandInput {
   context: Context;
   _grip: any;
   _gamePad: any;
-  _handSide: string;
+  _handSide: Handedness;
+  source: string; // "controller", or the name of the virtual source driving it
+  profiles: string[]; // WebXR input profiles, most specific first
+  buttonMapping: ControllerMapping; // Where the buttons and axes are in the gamepad for this controller
   _wristAxis: THREE.AxesHelper;
   select: boolean;
   squeeze: boolean;
@@ -38,11 +50,15 @@ export class XrMechanicalControllerInput {
   _buttonStateIndicator?: THREE.Mesh;
   isNearGrip: boolean;
   distanceToGrip: number;
-  constructor(context: Context, grip: any, gamePad: any, handSide: string) {
+  _displayAnchor: THREE.Vector3 | null;
+  constructor(context: Context, grip: any, gamePad: any, handSide: Handedness, source: string = "controller", profiles: string[] = []) {
     this.context = context;
     this._grip = grip;
     this._gamePad = gamePad;
     this._handSide = handSide;
+    this.source = source;
+    this.profiles = profiles;
+    this.buttonMapping = resolveControllerMapping(profiles);
     this._wristAxis = new THREE.AxesHelper(0.1);
 
     this.select = false;
@@ -66,11 +82,70 @@ export class XrMechanicalControllerInput {
     this._lastUpdate = -1;
     this.isNearGrip = false;
     this.distanceToGrip = Infinity;
+    this._displayAnchor = null;
 
     // Create visual debug sphere for controller position
     this.createDebugVisualization();
   }
 
+  get handedness() {
+    return this._handSide;
+  }
+
+  /*
+   * The grip space has a pose this frame (WebXR hides the grip while tracking is lost)
+   */
+  get isTracked() {
+    return this._grip.visible !== false;
+  }
+
+  /*
+   * Analog grip button value, or 0/1 from the squeeze events when there's no analog value
+   */
+  get gripStrength() {
+    const squeezeIndex = this.buttonMapping.squeeze;
+    const value = squeezeIndex === null ? undefined : this._gamePad?.buttons?.[squeezeIndex]?.value;
+    return typeof value === "number" ? value : this.squeeze ? 1 : 0;
+  }
+
+  /*
+   * A/X button (the unbound foot-catch)
+   */
+  get footCatch() {
+    this.refresh();
+    return this.buttonA;
+  }
+
+  /*
+   * Check a button by meaning, wherever this controller has it
+   */
+  isButtonDown(button: BindableButton) {
+    this.refresh();
+    switch (button) {
+      case "trigger":
+        return this.select;
+      case "squeeze":
+        return this.squeeze;
+      case "buttonA":
+        return this.buttonA;
+      case "buttonB":
+        return this.buttonB;
+      case "thumbstick":
+        return this.thumbStickButton;
+      case "touchpad":
+        return this.touchPadButton;
+    }
+  }
+
+  /*
+   * Analog button value (0-1), or 0/1 when the controller has no analog value for it
+   */
+  getButtonValue(button: BindableButton) {
+    const index = this.buttonMapping[button];
+    const value = index === null ? undefined : this._gamePad?.buttons?.[index]?.value;
+    return typeof value === "number" ? value : this.isButtonDown(button) ? 1 : 0;
+  }
+
   /*
    * Position of the head tracker relative to the parent object.
    */
@@ -122,12 +197,24 @@ export class XrMechanicalControllerInput {
   /*
    * Apply haptic feedback to the controller (vibrate)
    */
-  vibrate(intensity: any, timeMs: any) {
-    if (this._gamePad.hapticActuators && this._gamePad.hapticActuators.length >= 1) {
+  vibrate(intensity: number, timeMs: number) {
+    if (this._gamePad?.hapticActuators && this._gamePad.hapticActuators.length >= 1) {
       this._gamePad.hapticActuators[0].pulse(intensity || 1, timeMs || 100);
     }
   }
 
+  /*
+   * Draw the debug sphere here (copied) instead of at the wrist, e.g. while attached to a grip
+   */
+  setDisplayAnchor(position: THREE.Vector3 | null) {
+    if (position) {
+      this._displayAnchor = (this._displayAnchor ?? new THREE.Vector3()).copy(position);
+    } else {
+      this._displayAnchor = null;
+    }
+    this._debugSphere?.position.copy(this._displayAnchor ?? this.wristWPos);
+  }
+
   /*
    * Create visual debug elements for controller
    */
@@ -258,14 +345,9 @@ export class XrMechanicalControllerInput {
     this._wristAxis.position.copy(this.wristWPos);
     this._wristAxis.quaternion.copy(this.wristWQuat);
 
-    // Check if controller is attached to grip (GripSystem manages position when attached)
-    const isAttached = this.context.gripSystem?.isHandAttached(
-      this._handSide as "left" | "right"
-    );
-
-    // Update debug sphere position (only if not attached - GripSystem handles attached position)
-    if (this._debugSphere && !isAttached) {
-      this._debugSphere.position.copy(this.wristWPos);
+    // Update debug sphere position (GripSystem anchors it to the grip while attached)
+    if (this._debugSphere) {
+      this._debugSphere.position.copy(this._displayAnchor ?? this.wristWPos);
     }
 
     // Update button state indicator position and orientation
@@ -305,11 +387,7 @@ export class XrMechanicalControllerInput {
     this._grip.getWorldQuaternion(this._worldRotation);
 
     // Offset the world position to find the wrist location
-    const offset =
-      this._handSide == "left"
-        ? { x: -0.02, y: 0.0, z: 0.09 } // Left Wrist offset
-        : { x: 0.02, y: 0.0, z: 0.09 }; // Right Wrist offset
-    __wristOffset.set(offset.x, offset.y, offset.z);
+    __wristOffset.copy(this._handSide == "left" ? WristOffsets.left : WristOffsets.right);
     __wristOffset.applyQuaternion(this._worldRotation);
     this._worldPosition.add(__wristOffset);
 
@@ -338,25 +416,40 @@ export class XrMechanicalControllerInput {
     this._grip.getWorldQuaternion(__rot);
     this._pointerWDirection.applyQuaternion(__rot);
 
-    // update gamepad
+    // update gamepad, using the layout for this controller's profile
     // https://www.w3.org/TR/webxr-gamepads-module-1/
     if (this._gamePad) {
+      const mapping = this.buttonMapping;
       let axis = this._gamePad.axes;
-      if (axis && axis.length > 3) {
-        // Mixed Reality
-        this.touchPad.set(axis[0], axis[1]);
-        // Mixed Reality and Quest 2
-        this.thumbStick.set(axis[2], axis[3]);
+      if (axis) {
+        this.readAxes(axis, mapping.touchpadAxes, this.touchPad);
+        this.readAxes(axis, mapping.thumbstickAxes, this.thumbStick);
       }
       let buttons = this._gamePad.buttons;
       if (buttons) {
-        // Mixed Reality and Quest 2
-        this.touchPadButton = buttons.length > 2 ? buttons[2].pressed : false;
-        this.thumbStickButton = buttons.length > 3 ? buttons[3].pressed : false;
-        // Quest 2
-        this.buttonA = buttons.length > 4 ? buttons[4].pressed : false;
-        this.buttonB = buttons.length > 5 ? buttons[5].pressed : false;
+        this.touchPadButton = this.isButtonPressed(buttons, mapping.touchpad);
+        this.thumbStickButton = this.isButtonPressed(buttons, mapping.thumbstick);
+        this.buttonA = this.isButtonPressed(buttons, mapping.buttonA);
+        this.buttonB = this.isButtonPressed(buttons, mapping.buttonB);
       }
     }
   }
+
+  /*
+   * Read a pair of gamepad axes into a vector (zero if the controller doesn't have them)
+   */
+  readAxes(axes: ArrayLike<number>, indices: [number, number] | null, target: THREE.Vector2) {
+    if (!indices || axes.length <= Math.max(indices[0], indices[1])) {
+      target.set(0, 0);
+      return;
+    }
+    target.set(axes[indices[0]], axes[indices[1]]);
+  }
+
+  /*
+   * Check a gamepad button (false if the controller doesn't have it)
+   */
+  isButtonPressed(buttons: ArrayLike<GamepadButton>, index: number | null) {
+    return index !== null && index < buttons.length ? buttons[index].pressed : false;
+  }
 }
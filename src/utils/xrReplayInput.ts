@@ -0,0 +1,109 @@
+import { Context } from "../context";
+import { InputRecording, RecordedController, RecordedFrame } from "./xrInputRecording";
+import { VirtualController, VirtualInputFrame, VirtualInputSource, createVirtualController } from "./xrVirtualInput";
+
+/**
+ * Plays an InputRecording back one frame per animation frame.
+ *
+ * Poses virtual grips and fills virtual gamepads from each recorded frame, and
+ * hands XrInput the recorded head pose and delta time. The recorded bindings stand
+ * in for the rider's while it plays, so the buttons mean what they did when recorded.
+ */
+export class XrReplayInput implements VirtualInputSource {
+  readonly name = "replay";
+  context: Context;
+  recording: InputRecording;
+  frameIndex: number = 0;
+  left: VirtualController;
+  right: VirtualController;
+  private currentFrame: RecordedFrame | null = null;
+  private usingRecordedBindings: boolean = false;
+
+  constructor(context: Context, recording: InputRecording) {
+    this.context = context;
+    this.recording = recording;
+    this.left = createVirtualController(context.scene);
+    this.right = createVirtualController(context.scene);
+    this.left.profiles = recording.profiles?.left;
+    this.right.profiles = recording.profiles?.right;
+  }
+
+  /**
+   * Check if there are frames left to play
+   */
+  hasNextFrame(): boolean {
+    return this.frameIndex < this.recording.frames.length;
+  }
+
+  /**
+   * Pose the grips and fill the gamepads from the next frame
+   */
+  nextFrame(): VirtualInputFrame | null {
+    const frame = this.recording.frames[this.frameIndex];
+    if (!frame) {
+      this.currentFrame = null;
+      return null;
+    }
+    this.frameIndex++;
+    this.currentFrame = frame;
+
+    // Only once playing, so a replay refused at the start leaves the rider's bindings alone
+    if (!this.usingRecordedBindings || frame.bindings) {
+      this.context.xrInput.bindings.useOverride(frame.bindings ?? this.recording.bindings);
+      this.usingRecordedBindings = true;
+    }
+
+    if (frame.left) {
+      this.applyController(this.left, frame.left);
+    }
+    if (frame.right) {
+      this.applyController(this.right, frame.right);
+    }
+    return { deltaTime: frame.deltaTime, timeScale: frame.timeScale ?? 1, head: frame.head };
+  }
+
+  /**
+   * Controller for a hand, or null if it was disconnected in this frame of the recording
+   */
+  getController(hand: "left" | "right"): VirtualController | null {
+    const recorded = hand === "left" ? this.currentFrame?.left : this.currentFrame?.right;
+    if (!recorded) {
+      return null;
+    }
+    return hand === "left" ? this.left : this.right;
+  }
+
+  /**
+   * Playback progress (0-1)
+   */
+  getProgress(): number {
+    const frameCount = this.recording.frames.length;
+    return frameCount > 0 ? this.frameIndex / frameCount : 1;
+  }
+
+  /**
+   * Copy a recorded controller onto its stand-ins
+   */
+  private applyController(controller: VirtualController, recorded: RecordedController): void {
+    controller.grip.position.fromArray(recorded.grip.position);
+    controller.grip.quaternion.fromArray(recorded.grip.quaternion);
+    controller.grip.updateMatrixWorld();
+
+    controller.gamepad.buttons = recorded.buttons;
+    controller.gamepad.axes = recorded.axes;
+    controller.select = recorded.select;
+    controller.squeeze = recorded.squeeze;
+  }
+
+  /**
+   * Remove the grip objects from the scene and go back to the rider's bindings
+   */
+  dispose(): void {
+    if (this.usingRecordedBindings) {
+      this.context.xrInput.bindings.useOverride(null);
+      this.usingRecordedBindings = false;
+    }
+    this.left.grip.removeFromParent();
+    this.right.grip.removeFromParent();
+  }
+}
@@ -0,0 +1,83 @@
+import * as THREE from "three";
+import { WristOffsets } from "./xrMechanicalControllerInput";
+
+// Working variables, prevents "new" allocations
+const __offset = new THREE.Vector3();
+const __up = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Stand-in for a WebXR gamepad, filled in by a virtual input source
+ */
+export interface VirtualGamepad {
+  buttons: GamepadButton[];
+  axes: number[];
+  hapticActuators: { pulse(intensity: number, timeMs: number): void }[];
+}
+
+/**
+ * Stand-ins for one controller: a grip object posed like a WebXR grip space, its
+ * gamepad, and the select/squeeze states WebXR reports through events
+ */
+export interface VirtualController {
+  grip: THREE.Object3D;
+  gamepad: VirtualGamepad;
+  select: boolean;
+  squeeze: boolean;
+  profiles?: string[]; // WebXR input profiles for the gamepad layout (absent: xr-standard)
+}
+
+/**
+ * Extra per-frame data a source can provide
+ */
+export interface VirtualInputFrame {
+  deltaTime?: number; // Override Context.deltaTime (seconds)
+  timeScale?: number; // Override the practice mode time scale
+  head?: { position: [number, number, number]; quaternion: [number, number, number, number] };
+}
+
+/**
+ * A source of controller input other than WebXR (replay, desktop emulation, gamepad).
+ * XrInput drives ordinary XrMechanicalControllerInputs from its virtual controllers,
+ * so everything downstream runs unchanged.
+ */
+export interface VirtualInputSource {
+  readonly name: string;
+  /** Advance one frame. Returns null once the source has finished. */
+  nextFrame(): VirtualInputFrame | null;
+  /** Controller for a hand this frame, or null if it's disconnected */
+  getController(hand: "left" | "right"): VirtualController | null;
+  dispose(): void;
+}
+
+/**
+ * Create a virtual controller with its grip object added to the scene (like the WebXR grips)
+ */
+export function createVirtualController(scene: THREE.Object3D): VirtualController {
+  const grip = new THREE.Group();
+  scene.add(grip);
+  return {
+    grip,
+    gamepad: { buttons: [], axes: [], hapticActuators: [] },
+    select: false,
+    squeeze: false,
+  };
+}
+
+/**
+ * Pose a virtual grip so XrMechanicalControllerInput puts the wrist at the given position,
+ * twisted by yaw (radians) around the vertical
+ */
+export function setVirtualWristPose(controller: VirtualController, side: "left" | "right", wristPosition: THREE.Vector3, yaw: number): void {
+  const grip = controller.grip;
+  grip.quaternion.setFromAxisAngle(__up, yaw);
+  __offset.copy(WristOffsets[side]).applyQuaternion(grip.quaternion);
+  grip.position.copy(wristPosition).sub(__offset);
+  grip.updateMatrixWorld();
+}
+
+/**
+ * Create a gamepad button state
+ */
+export function createGamepadButton(pressed: boolean, value: number = pressed ? 1 : 0): GamepadButton {
+  return { pressed, touched: pressed, value };
+}